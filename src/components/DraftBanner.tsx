@@ -0,0 +1,29 @@
+import React from 'react';
+import type { FormController } from '../hooks/useFormValidator';
+
+interface DraftBannerProps {
+  draft: FormController['draft'];
+}
+
+/**
+ * DraftBanner component - "Resume draft?" prompt shown while a saved draft waits (persist.restore === 'manual')
+ */
+export const DraftBanner: React.FC<DraftBannerProps> = ({ draft }) => {
+  if (!draft.hasDraft) return null;
+
+  return (
+    <div className="draft-banner" role="status">
+      <span>You have an unsaved draft. Resume where you left off?</span>
+      <div className="draft-banner-actions">
+        <button type="button" onClick={draft.restoreDraft} className="form-button primary small">
+          Resume
+        </button>
+        <button type="button" onClick={draft.discardDraft} className="form-button secondary small">
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DraftBanner;
@@ -0,0 +1,137 @@
+import { act } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorageAdapter } from '../lib/storage';
+import { changedSince, createCountingRenderer, createFields, render, type, wait } from '../test/utils';
+import DynamicForm from './DynamicForm';
+
+const fields = createFields(80);
+
+describe('DynamicForm render counts', () => {
+  it('re-renders only the field being typed into', async () => {
+    const { renders, Counting } = createCountingRenderer();
+    const container = render(<DynamicForm fields={fields} onSubmit={() => {}} fieldRenderers={{ text: Counting }} />);
+    expect(Object.keys(renders)).toHaveLength(80);
+
+    const before = { ...renders };
+    const input = container.querySelector<HTMLInputElement>('#field3')!;
+    await type(input, 'hello');
+
+    expect(input.value).toBe('hello');
+    expect(renders.field3 - before.field3).toBe(5);
+    expect(changedSince(renders, before)).toEqual(['field3']);
+  });
+
+  it('re-renders only the blurred field when it is validated', async () => {
+    const { renders, Counting } = createCountingRenderer();
+    const container = render(<DynamicForm fields={fields} onSubmit={() => {}} fieldRenderers={{ text: Counting }} />);
+
+    const before = { ...renders };
+    await act(async () => {
+      container.querySelector<HTMLInputElement>('#field5')!.focus();
+      container.querySelector<HTMLInputElement>('#field5')!.blur();
+    });
+
+    expect(changedSince(renders, before)).toEqual(['field5']);
+  });
+
+  it('autosaves drafts without re-rendering other fields', async () => {
+    const { renders, Counting } = createCountingRenderer();
+    const storage = createMemoryStorageAdapter();
+    const container = render(
+      <DynamicForm
+        fields={fields}
+        onSubmit={() => {}}
+        fieldRenderers={{ text: Counting }}
+        persist={{ key: 'draft', storage, debounceMs: 10 }}
+      />
+    );
+    // The stored draft is read before autosave starts
+    await act(async () => {});
+
+    const before = { ...renders };
+    await type(container.querySelector<HTMLInputElement>('#field3')!, 'hi');
+    await wait(50);
+
+    expect(changedSince(renders, before)).toEqual(['field3']);
+    expect(JSON.parse((await storage.getItem('draft'))!).values.field3).toBe('hi');
+  });
+});
+
+describe('DynamicForm form validators', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports a throwing form validator on blur and change instead of rejecting', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failure = new Error('lookup failed');
+    const formValidators = [
+      async () => {
+        throw failure;
+      },
+    ];
+    const { Counting } = createCountingRenderer();
+    const container = render(
+      <DynamicForm
+        fields={createFields(2)}
+        onSubmit={() => {}}
+        fieldRenderers={{ text: Counting }}
+        formValidators={formValidators}
+      />
+    );
+
+    const input = container.querySelector<HTMLInputElement>('#field0')!;
+    await act(async () => {
+      input.focus();
+      input.blur();
+    });
+    await type(input, 'x');
+    await wait(350);
+
+    expect(consoleError).toHaveBeenCalledTimes(2);
+    expect(consoleError).toHaveBeenCalledWith(failure);
+  });
+});
+
+describe('DynamicForm field arrays', () => {
+  const arrayFields = [
+    {
+      name: 'items',
+      type: 'array',
+      label: 'Item',
+      defaultValue: [{ name: 'first' }, { name: 'second' }, { name: 'third' }],
+      fields: [{ name: 'name', type: 'text' }],
+    },
+  ];
+  const rowInputs = (container: HTMLElement) => [
+    ...container.querySelectorAll<HTMLInputElement>('.field-array-row input'),
+  ];
+  const clickButton = (container: HTMLElement, label: string, index = 0) =>
+    act(async () => {
+      [...container.querySelectorAll('button')].filter((b) => b.textContent === label)[index].click();
+    });
+
+  it('keeps the inputs of the remaining rows when a row is removed', async () => {
+    const container = render(<DynamicForm fields={arrayFields} onSubmit={() => {}} />);
+    const [, second, third] = rowInputs(container);
+
+    await clickButton(container, 'Remove', 0);
+
+    expect(rowInputs(container)).toEqual([second, third]);
+    expect(rowInputs(container).map((input) => input.value)).toEqual(['second', 'third']);
+  });
+
+  it('moves the inputs with their rows', async () => {
+    const container = render(<DynamicForm fields={arrayFields} onSubmit={() => {}} />);
+    const [first, second, third] = rowInputs(container);
+
+    await clickButton(container, '↓', 0);
+    await clickButton(container, '+ Add Item');
+    await clickButton(container, 'Remove', 1);
+
+    const inputs = rowInputs(container);
+    expect(inputs.slice(0, 2)).toEqual([second, third]);
+    expect(inputs).not.toContain(first);
+    expect(inputs.map((input) => input.value)).toEqual(['second', 'third', '']);
+  });
+});
@@ -1,13 +1,29 @@
-import React, { useEffect } from 'react';
-import { useFormSubmission, useFormValidator } from '../hooks/useFormValidator';
-import type { CustomizationOptions, FieldConfig } from '../lib/types';
+import { useEffect, useState } from 'react';
+import { useControllerSubmission } from '../hooks/useControllerSubmission';
+import type { FieldRenderers } from '../hooks/useFieldRenderers';
+import { useStoreSelector } from '../hooks/useFormState';
+import { useFormController } from '../hooks/useFormValidator';
+import { getActiveFields, omitHiddenValues } from '../lib/conditions';
+import { isEqual } from '../lib/dirty';
+import type { LocaleBundles } from '../lib/messages';
+import type { ValidatorRegistry } from '../lib/registry';
+import type { SanitizePipeline } from '../lib/sanitize';
+import type { DeepPartial, FieldValues, TypedFields } from '../lib/typedFields';
+import type {
+  CustomizationOptions,
+  FormSubmitHandler,
+  FormValidator,
+  PersistOptions,
+} from '../lib/types';
 // Styles are provided as a plain CSS entry (`src/styles/index.css`).
 // Consumers should import 'formguardian-react/styles' (side-effect) or the package will provide styles in dist.
-import FormField from './FormField';
+import DraftBanner from './DraftBanner';
+import FormErrors from './FormErrors';
+import FormFields from './FormFields';
 
-interface DynamicFormProps {
-  fields: FieldConfig[];
-  onSubmit: (values: Record<string, unknown>) => void | Promise<void>;
+interface DynamicFormProps<TValues> {
+  fields: TypedFields<TValues>; // plain FieldConfig[] or defineFields(...) for typed values
+  onSubmit: FormSubmitHandler<TValues>;
   validationMode?: 'onChange' | 'onBlur' | 'onSubmit';
   customization?: CustomizationOptions;
   submitButtonText?: string;
@@ -16,12 +32,22 @@ interface DynamicFormProps {
   disabled?: boolean;
   className?: string;
   submitThrottleMs?: number; // throttle delay for submit button
+  validatorRegistry?: ValidatorRegistry; // scoped registry for custom rule types
+  initialValues?: DeepPartial<TValues>; // nested initial values, e.g. { address: { zip: '10001' } }
+  locale?: string; // locale for validation messages (overrides FormMessagesProvider)
+  messages?: LocaleBundles; // message bundles keyed by locale
+  persist?: PersistOptions; // autosave drafts to storage and restore them on mount
+  warnOnUnsavedChanges?: boolean; // browser prompt when leaving with unsaved edits
+  collectAllErrors?: boolean; // run every rule and keep all failures in formState.fieldErrors
+  formValidators?: FormValidator<TValues>[]; // cross-field rules returning errors keyed by field path or '_form'
+  sanitize?: boolean | Record<string, SanitizePipeline>; // default pipelines by input type (true = DEFAULT_SANITIZERS)
+  fieldRenderers?: FieldRenderers; // custom components by field type, merged over FieldRenderersProvider
 }
 
 /**
  * DynamicForm component - Main form component with validation and field management
  */
-export const DynamicForm: React.FC<DynamicFormProps> = ({
+export const DynamicForm = <TValues extends FieldValues = FieldValues>({
   fields,
   onSubmit,
   validationMode = 'onBlur',
@@ -32,29 +58,61 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
   disabled = false,
   className,
   submitThrottleMs = 1000,
-}) => {
-  const {
-    formState,
-    setFieldValue,
-    setFieldTouched,
-    validateFormFields,
-    resetForm,
-  } = useFormValidator(fields, validationMode);
-
-  const { handleSubmit, isSubmitting, isThrottled, submitError, setSubmitError } = useFormSubmission(
-    onSubmit,
-    validateFormFields,
-    formState.values,
-    submitThrottleMs
+  validatorRegistry,
+  initialValues,
+  locale,
+  messages,
+  persist,
+  warnOnUnsavedChanges = false,
+  collectAllErrors = false,
+  formValidators,
+  sanitize = false,
+  fieldRenderers,
+}: DynamicFormProps<TValues>) => {
+  const form = useFormController(fields, validationMode, undefined, {
+    registry: validatorRegistry,
+    initialValues,
+    locale,
+    messages,
+    persist,
+    collectAllErrors,
+    formValidators,
+  });
+  const { store, resetForm, draft } = form;
+
+  // Fields subscribe to their own state; the form itself only to what it renders below
+  const activeFields = useStoreSelector(
+    store,
+    (state) => getActiveFields(fields, state.values as Record<string, unknown>),
+    isEqual
   );
 
-  // Auto-clear submit error when all field errors are resolved
+  // Values of the last successful submit
+  const [savedValues, setSavedValues] = useState<TValues | null>(null);
+
+  const { handleSubmit, isSubmitting, isThrottled, submitError } = useControllerSubmission(form, onSubmit, {
+    submitThrottleMs,
+    sanitize,
+    onSuccess: setSavedValues,
+  });
+
+  // Guard against leaving the page with edits that were not submitted
+  const hasUnsavedChanges = useStoreSelector(
+    store,
+    (state) =>
+      warnOnUnsavedChanges &&
+      state.isDirty &&
+      !isEqual(omitHiddenValues(state.values as Record<string, unknown>, fields), savedValues)
+  );
   useEffect(() => {
-    const hasErrors = Object.values(formState.errors).some(Boolean);
-    if (!hasErrors && submitError) {
-      setSubmitError(null);
-    }
-  }, [formState.errors, submitError, setSubmitError]);
+    if (!warnOnUnsavedChanges || !hasUnsavedChanges) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [warnOnUnsavedChanges, hasUnsavedChanges]);
 
   const containerClass = [
     'form-container',
@@ -90,27 +148,21 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
   return (
     <form onSubmit={handleSubmit} className={formContainerClass}>
       <div className={containerClass}>
-        {/* Render all fields */}
-        {fields.map((field) => (
-          <FormField
-            key={field.name}
-            field={field}
-            value={formState.values[field.name]}
-            error={formState.errors[field.name] || ''}
-            touched={formState.touched[field.name] || false}
-            onChange={setFieldValue}
-            onBlur={setFieldTouched}
-            disabled={disabled || field.disabled}
-            showAnimation={customization?.showAnimations !== false}
-          />
-        ))}
-
-        {/* Submit error message */}
-        {submitError && (
-          <div className="error-boundary">
-            <span>⚠ {submitError}</span>
-          </div>
-        )}
+        {/* Saved draft prompt (persist.restore === 'manual') */}
+        <DraftBanner draft={draft} />
+
+        {/* Render visible fields */}
+        <FormFields
+          form={form}
+          fields={activeFields}
+          locale={locale}
+          messages={messages}
+          fieldRenderers={fieldRenderers}
+          customization={customization}
+          disabled={disabled}
+        />
+
+        <FormErrors form={form} submitError={submitError} />
 
         {/* Buttons */}
         <div style={{ display: 'flex', gap: '1rem', marginTop: '1rem' }}>
@@ -125,7 +177,7 @@ export const DynamicForm: React.FC<DynamicFormProps> = ({
           {showResetButton && (
             <button
               type="button"
-              onClick={resetForm}
+              onClick={() => resetForm()}
               disabled={disabled || isSubmitting}
               className={resetButtonClass}
             >
@@ -100,7 +100,8 @@ export function AdvancedForm() {
         { value: 'javascript', label: 'JavaScript' },
         { value: 'python', label: 'Python' },
         { value: 'rust', label: 'Rust' }
-      ]
+      ],
+      validators: [{ type: 'minItems', value: 1, message: 'Pick at least one language' }]
     },
     {
       name: 'agreeToTerms',
@@ -0,0 +1,142 @@
+import React from 'react';
+import { getItemPath } from '../lib/fieldArrays';
+import { getIn, normalizePath } from '../lib/paths';
+import type { FieldBlurHandler, FieldChangeHandler, FieldConfig, FieldError } from '../lib/types';
+import FormField from './FormField';
+
+interface FieldArrayProps {
+  field: FieldConfig;
+  value: unknown;
+  rowIds?: string[];
+  errors: Record<string, string>;
+  touched: Record<string, boolean>;
+  validating?: Record<string, boolean>;
+  warnings?: Record<string, string>;
+  infos?: Record<string, string>;
+  fieldErrors?: Record<string, FieldError[]>;
+  warningClass?: string;
+  onChange: FieldChangeHandler;
+  onBlur: FieldBlurHandler;
+  onAppend: (fieldName: string) => void;
+  onRemove: (fieldName: string, index: number) => void;
+  onMove: (fieldName: string, from: number, to: number) => void;
+  disabled?: boolean;
+  showAnimation?: boolean;
+}
+
+/**
+ * FieldArray component - Renders repeatable rows of a `type: 'array'` field with add/remove/move controls
+ */
+export const FieldArray: React.FC<FieldArrayProps> = ({
+  field,
+  value,
+  rowIds,
+  errors,
+  touched,
+  validating = {},
+  warnings = {},
+  infos = {},
+  fieldErrors = {},
+  warningClass,
+  onChange,
+  onBlur,
+  onAppend,
+  onRemove,
+  onMove,
+  disabled = false,
+  showAnimation = true,
+}) => {
+  const rows = Array.isArray(value) ? (value as Record<string, unknown>[]) : [];
+  const canAdd = field.maxItems === undefined || rows.length < field.maxItems;
+  const canRemove = field.minItems === undefined || rows.length > field.minItems;
+  const name = normalizePath(field.name);
+  const error = touched[name] ? errors[name] : '';
+  // Rows keep their key when others are removed or moved, so their inputs keep focus and local state
+  const rowKey = (index: number) => (rowIds ? rowIds[index] ?? `extra-${index}` : String(index));
+
+  return (
+    <div className={['form-group', 'field-array', error && showAnimation && 'has-error'].filter(Boolean).join(' ')}>
+      {field.label && (
+        <label className={`form-label ${error ? 'error' : ''}`}>
+          {field.label}
+          {field.required && <span className="required-indicator">*</span>}
+        </label>
+      )}
+
+      {rows.map((row, index) => (
+        <div key={rowKey(index)} className="field-array-row">
+          {field.fields?.map((sub) => {
+            const path = getItemPath(field.name, index, sub.name);
+            return (
+              <FormField
+                key={sub.name}
+                field={{ ...sub, name: path }}
+                value={getIn(row, sub.name)}
+                error={errors[path] || ''}
+                touched={touched[path] || false}
+                onChange={onChange}
+                onBlur={onBlur}
+                disabled={disabled || sub.disabled}
+                showAnimation={showAnimation}
+                validating={validating[path] || false}
+                warning={warnings[path] || ''}
+                info={infos[path] || ''}
+                warningClass={warningClass}
+                fieldErrors={fieldErrors[path]}
+              />
+            );
+          })}
+
+          <div className="field-array-controls">
+            <button
+              type="button"
+              onClick={() => onMove(field.name, index, index - 1)}
+              disabled={disabled || index === 0}
+              className="form-button secondary small"
+              aria-label={`Move item ${index + 1} up`}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => onMove(field.name, index, index + 1)}
+              disabled={disabled || index === rows.length - 1}
+              className="form-button secondary small"
+              aria-label={`Move item ${index + 1} down`}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(field.name, index)}
+              disabled={disabled || !canRemove}
+              className="form-button danger small"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <button
+          type="button"
+          onClick={() => onAppend(field.name)}
+          disabled={disabled || !canAdd}
+          className="form-button secondary small"
+        >
+          + Add {field.label || 'item'}
+        </button>
+      </div>
+
+      {error && (
+        <div id={`${field.name}-error`} className="form-error">
+          <span className="error-icon">⚠</span>
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldArray;
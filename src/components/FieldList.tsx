@@ -0,0 +1,174 @@
+import React, { memo, useContext } from 'react';
+import { isEqual } from '../lib/dirty';
+import { isArrayField } from '../lib/fieldArrays';
+import { selectFieldState, shallowEqual, type ReadableStore } from '../lib/formStore';
+import { getIn, normalizePath } from '../lib/paths';
+import type { FieldBlurHandler, FieldChangeHandler, FieldConfig, FormState } from '../lib/types';
+import { FormContext } from '../hooks/useFormContext';
+import { useStoreSelector } from '../hooks/useFormState';
+import FieldArray from './FieldArray';
+import FormField from './FormField';
+
+interface FieldListProps {
+  fields: FieldConfig[];
+  formState?: FormState; // omit inside a FormProvider to let every field subscribe to its own state
+  onChange: FieldChangeHandler;
+  onBlur: FieldBlurHandler;
+  onAppend: (fieldName: string) => void;
+  onRemove: (fieldName: string, index: number) => void;
+  onMove: (fieldName: string, from: number, to: number) => void;
+  disabled?: boolean;
+  showAnimation?: boolean;
+  warningClass?: string;
+}
+
+type StoreFieldProps = Omit<FieldListProps, 'fields' | 'formState'> & {
+  field: FieldConfig;
+  store: ReadableStore<FormState>;
+};
+
+/**
+ * Entries of a record that belong to an array field or its rows
+ */
+const pickArrayEntries = <T,>(record: Record<string, T>, name: string): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).filter(([key]) => key === name || key.startsWith(`${name}.`)));
+
+/**
+ * Field that re-renders only when its own value, messages or flags change
+ */
+const StoreFormField = memo(
+  ({ field, store, onChange, onBlur, disabled, showAnimation, warningClass }: StoreFieldProps) => {
+    const state = useStoreSelector(store, (formState) => selectFieldState(formState, field.name), shallowEqual);
+    return (
+      <FormField
+        field={field}
+        value={state.value}
+        error={state.error}
+        touched={state.touched}
+        onChange={onChange}
+        onBlur={onBlur}
+        disabled={disabled || field.disabled}
+        showAnimation={showAnimation}
+        validating={state.validating}
+        warning={state.warning}
+        info={state.info}
+        warningClass={warningClass}
+        fieldErrors={state.fieldErrors}
+      />
+    );
+  }
+);
+
+/**
+ * Array field that re-renders only when its rows or their state change
+ */
+const StoreFieldArray = memo(({ field, store, disabled, ...props }: StoreFieldProps) => {
+  const state = useStoreSelector(
+    store,
+    (formState) => {
+      const name = normalizePath(field.name);
+      return {
+        value: getIn(formState.values, field.name),
+        rowIds: formState.rowIds[name],
+        errors: pickArrayEntries(formState.errors, name),
+        touched: pickArrayEntries(formState.touched, name),
+        validating: pickArrayEntries(formState.validating, name),
+        warnings: pickArrayEntries(formState.warnings, name),
+        infos: pickArrayEntries(formState.infos, name),
+        fieldErrors: pickArrayEntries(formState.fieldErrors, name),
+      };
+    },
+    isEqual
+  );
+  return <FieldArray field={field} {...state} {...props} disabled={disabled || field.disabled} />;
+});
+
+/**
+ * FieldList component - Renders resolved field configs against the form state
+ */
+export const FieldList: React.FC<FieldListProps> = ({
+  fields,
+  formState,
+  onChange,
+  onBlur,
+  onAppend,
+  onRemove,
+  onMove,
+  disabled = false,
+  showAnimation = true,
+  warningClass,
+}) => {
+  const form = useContext(FormContext);
+
+  if (!formState) {
+    if (!form) {
+      throw new Error('[formguardian] FieldList needs a formState prop or a surrounding FormProvider');
+    }
+    const props = {
+      store: form.store,
+      onChange,
+      onBlur,
+      onAppend,
+      onRemove,
+      onMove,
+      disabled,
+      showAnimation,
+      warningClass,
+    };
+    return (
+      <>
+        {fields.map((field) => isArrayField(field) ? (
+          <StoreFieldArray key={field.name} field={field} {...props} />
+        ) : (
+          <StoreFormField key={field.name} field={field} {...props} />
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {fields.map((field) => isArrayField(field) ? (
+        <FieldArray
+          key={field.name}
+          field={field}
+          value={getIn(formState.values, field.name)}
+          rowIds={formState.rowIds[normalizePath(field.name)]}
+          errors={formState.errors}
+          touched={formState.touched}
+          validating={formState.validating}
+          warnings={formState.warnings}
+          infos={formState.infos}
+          fieldErrors={formState.fieldErrors}
+          warningClass={warningClass}
+          onChange={onChange}
+          onBlur={onBlur}
+          onAppend={onAppend}
+          onRemove={onRemove}
+          onMove={onMove}
+          disabled={disabled || field.disabled}
+          showAnimation={showAnimation}
+        />
+      ) : (
+        <FormField
+          key={field.name}
+          field={field}
+          value={getIn(formState.values, field.name)}
+          error={formState.errors[normalizePath(field.name)] || ''}
+          touched={formState.touched[normalizePath(field.name)] || false}
+          onChange={onChange}
+          onBlur={onBlur}
+          disabled={disabled || field.disabled}
+          showAnimation={showAnimation}
+          validating={formState.validating[normalizePath(field.name)] || false}
+          warning={formState.warnings[normalizePath(field.name)] || ''}
+          info={formState.infos[normalizePath(field.name)] || ''}
+          warningClass={warningClass}
+          fieldErrors={formState.fieldErrors[normalizePath(field.name)]}
+        />
+      ))}
+    </>
+  );
+};
+
+export default FieldList;
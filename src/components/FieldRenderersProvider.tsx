@@ -0,0 +1,19 @@
+import React, { useMemo } from 'react';
+import { FieldRenderersContext, useFieldRenderers, type FieldRenderers } from '../hooks/useFieldRenderers';
+
+interface FieldRenderersProviderProps {
+  renderers?: FieldRenderers; // without renderers the outer ones are passed through
+  children: React.ReactNode;
+}
+
+/**
+ * FieldRenderersProvider component - Registers custom field components for the forms below it.
+ * Renderers of an outer provider stay available unless the same type is registered again.
+ */
+export const FieldRenderersProvider: React.FC<FieldRenderersProviderProps> = ({ renderers, children }) => {
+  const parent = useFieldRenderers();
+  const value = useMemo(() => (renderers ? { ...parent, ...renderers } : parent), [parent, renderers]);
+  return <FieldRenderersContext.Provider value={value}>{children}</FieldRenderersContext.Provider>;
+};
+
+export default FieldRenderersProvider;
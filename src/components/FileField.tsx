@@ -0,0 +1,131 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useFilePreviews } from '../hooks/useFilePreviews';
+import { useFormMessages } from '../hooks/useFormMessages';
+import { formatFileSize, toFileArray } from '../lib/files';
+import { getInputConstraints } from '../lib/constraints';
+import { resolveMessage } from '../lib/messages';
+import type { FieldBlurHandler, FieldChangeHandler, FieldConfig } from '../lib/types';
+
+interface FileFieldProps {
+  field: FieldConfig;
+  value: unknown;
+  onChange: FieldChangeHandler;
+  onBlur: FieldBlurHandler;
+  disabled?: boolean;
+  invalid?: boolean;
+  describedBy?: string;
+}
+
+const sameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+/**
+ * FileField component - File input with drag-and-drop, image thumbnails and per-file remove buttons.
+ * The value is always a File[]; with `multiple`, picked and dropped files are added to it.
+ */
+export const FileField: React.FC<FileFieldProps> = ({
+  field,
+  value,
+  onChange,
+  onBlur,
+  disabled = false,
+  invalid = false,
+  describedBy,
+}) => {
+  const { locale, messages } = useFormMessages();
+  const [dragging, setDragging] = useState(false);
+  const files = useMemo(() => toFileArray(value), [value]);
+  const previews = useFilePreviews(files);
+
+  const addFiles = useCallback(
+    (picked: File[]) => {
+      if (picked.length === 0) return;
+      const next = field.multiple
+        ? [...files, ...picked.filter((file) => !files.some((existing) => sameFile(existing, file)))]
+        : picked.slice(0, 1);
+      onChange(field.name, next);
+    },
+    [field.multiple, field.name, files, onChange]
+  );
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      addFiles(toFileArray(e.target.files));
+      // Let the same file be picked again after it was removed
+      e.target.value = '';
+    },
+    [addFiles]
+  );
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setDragging(false);
+      if (disabled) return;
+      addFiles(toFileArray(e.dataTransfer.files));
+      onBlur(field.name);
+    },
+    [addFiles, disabled, field.name, onBlur]
+  );
+
+  const handleDragOver = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      if (!disabled) setDragging(true);
+    },
+    [disabled]
+  );
+
+  const removeFile = (index: number) => {
+    onChange(field.name, files.filter((_, i) => i !== index));
+  };
+
+  const text = (key: string) => resolveMessage(key, locale, messages) ?? key;
+
+  return (
+    <>
+      <div
+        className={['form-dropzone', dragging && 'dragging', invalid && 'error'].filter(Boolean).join(' ')}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <input
+          id={field.name}
+          name={field.name}
+          type="file"
+          multiple={field.multiple}
+          onChange={handleChange}
+          onBlur={() => onBlur(field.name)}
+          disabled={disabled}
+          {...getInputConstraints(field)}
+          className="form-file-input"
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+        />
+        <span className="form-dropzone-hint">{field.placeholder ?? text('dropFiles')}</span>
+      </div>
+      {files.length > 0 && (
+        <ul className="form-file-list">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${file.lastModified}-${index}`} className="form-file-item">
+              {previews.has(file) && <img src={previews.get(file)} alt="" className="form-file-preview" />}
+              <span className="form-file-name">{file.name}</span>
+              <span className="form-file-size">{formatFileSize(file.size, locale)}</span>
+              <button
+                type="button"
+                className="form-file-remove"
+                onClick={() => removeFile(index)}
+                disabled={disabled}
+                aria-label={`${text('removeFile')} ${file.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+};
+
+export default FileField;
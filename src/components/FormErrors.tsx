@@ -0,0 +1,36 @@
+import { useStoreSelector } from '../hooks/useFormState';
+import type { FormController } from '../hooks/useFormValidator';
+import type { FieldValues } from '../lib/typedFields';
+import { FORM_ERROR_KEY } from '../lib/validators';
+
+interface FormErrorsProps<TValues extends FieldValues> {
+  form: FormController<TValues>;
+  submitError: string | null;
+}
+
+/**
+ * FormErrors component - The form-level (`_form`) error and the submit error below the fields
+ */
+export const FormErrors = <TValues extends FieldValues = FieldValues>({ form, submitError }: FormErrorsProps<TValues>) => {
+  const formError = useStoreSelector(form.store, (state) => state.errors[FORM_ERROR_KEY]);
+
+  return (
+    <>
+      {/* Form-level error (formValidators or server `_form` errors) */}
+      {formError && (
+        <div className="error-boundary" role="alert">
+          <span>⚠ {formError}</span>
+        </div>
+      )}
+
+      {/* Submit error message */}
+      {submitError && (
+        <div className="error-boundary">
+          <span>⚠ {submitError}</span>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default FormErrors;
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { describe, expect, it } from 'vitest';
+import type { FieldConfig } from '../lib/types';
+import { render, setInputValue } from '../test/utils';
+import FormField from './FormField';
+
+/** FormField with its value held in state, as a form would */
+function renderControlled(field: FieldConfig) {
+  const values: unknown[] = [];
+  const Harness = () => {
+    const [value, setValue] = useState<unknown>('');
+    return (
+      <FormField
+        field={field}
+        value={value}
+        error=""
+        touched={false}
+        onChange={(_, next) => {
+          values.push(next);
+          setValue(next);
+        }}
+        onBlur={() => {}}
+      />
+    );
+  };
+  const container = render(<Harness />);
+  return { input: container.querySelector('input')!, values };
+}
+
+/** Fire one input event per step, with the text the browser reports at that step */
+async function typeSteps(input: HTMLInputElement, steps: string[]) {
+  for (const text of steps) {
+    await setInputValue(input, text);
+  }
+}
+
+describe('FormField number inputs', () => {
+  it('keeps the typed text while it matches the stored number', async () => {
+    const { input, values } = renderControlled({ name: 'price', type: 'number' });
+    await typeSteps(input, ['1', '1.0']);
+    expect(input.value).toBe('1.0');
+    expect(values.at(-1)).toBe(1);
+
+    await typeSteps(input, ['1.05']);
+    expect(input.value).toBe('1.05');
+    expect(values.at(-1)).toBe(1.05);
+  });
+
+  it('lets trailing zeros be typed', async () => {
+    const { input, values } = renderControlled({ name: 'rate', type: 'number' });
+    await typeSteps(input, ['0', '0.1', '0.10']);
+    expect(input.value).toBe('0.10');
+    expect(values.at(-1)).toBe(0.1);
+  });
+});
@@ -1,22 +1,22 @@
-import React, { useCallback } from 'react';
-import type { FieldBlurHandler, FieldChangeHandler, FieldConfig } from '../lib/types';
+import React, { useCallback, useState } from 'react';
+import { useFieldRenderers, type FieldRendererProps } from '../hooks/useFieldRenderers';
+import { useFormMessages } from '../hooks/useFormMessages';
+import { formatInputValue, parseInputValue, parseMultiValue } from '../lib/coercion';
+import { getInputConstraints } from '../lib/constraints';
+import { detectCardBrand } from '../lib/financial';
+import { maskInput } from '../lib/mask';
+import { formatMessage, resolveMessage } from '../lib/messages';
+import { scorePassword } from '../lib/password';
+import type { ValidationRule, ValidatorType } from '../lib/types';
+import { getRuleMessage } from '../lib/validators';
+import FileField from './FileField';
 // Use plain CSS class names (styles provided via `src/styles/index.css`).
 
-interface FormFieldProps {
-  field: FieldConfig;
-  value: unknown;
-  error: string;
-  touched: boolean;
-  onChange: FieldChangeHandler;
-  onBlur: FieldBlurHandler;
-  disabled?: boolean;
-  showAnimation?: boolean;
-}
 
 /**
- * FormField component - Renders individual form fields with validation and animations
+ * Built-in inputs for every field type
  */
-export const FormField: React.FC<FormFieldProps> = ({
+const BuiltInField: React.FC<FieldRendererProps> = ({
   field,
   value,
   error,
@@ -25,15 +25,53 @@ export const FormField: React.FC<FormFieldProps> = ({
   onBlur,
   disabled = false,
   showAnimation = true,
+  validating = false,
+  warning = '',
+  info = '',
+  warningClass,
+  fieldErrors,
 }) => {
+  const { locale, messages: messageBundles } = useFormMessages();
+  const [passwordVisible, setPasswordVisible] = useState(false);
+  // Last text typed, so number inputs keep '1.0' while the value is 1
+  const [typed, setTyped] = useState<string>();
+
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-      const newValue = e.target.type === 'checkbox' 
-        ? (e.target as HTMLInputElement).checked 
-        : e.target.value;
-      onChange(field.name, newValue);
+      const checked = e.target.type === 'checkbox' ? (e.target as HTMLInputElement).checked : undefined;
+      const target = e.target;
+      if (target instanceof HTMLSelectElement && target.multiple) {
+        onChange(field.name, parseMultiValue(field, Array.from(target.selectedOptions, (opt) => opt.value)));
+        return;
+      }
+      if (field.mask && !(target instanceof HTMLSelectElement)) {
+        // Write the masked text back right away so the caret can be placed in it; the
+        // re-render then sees an unchanged value and leaves the caret alone
+        const caret = target.selectionStart ?? target.value.length;
+        const masked = maskInput(target.value, caret, field.mask);
+        target.value = masked.value;
+        try {
+          target.setSelectionRange(masked.caret, masked.caret);
+        } catch {
+          // Input types such as email and number have no selection API
+        }
+      }
+      setTyped(e.target.value);
+      onChange(field.name, parseInputValue(field, e.target.value, checked));
+    },
+    [field, onChange]
+  );
+
+  // Checkbox groups toggle one option of the array value
+  const handleGroupChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const current = Array.isArray(value) ? value.map(String) : [];
+      const selected = e.target.checked
+        ? [...current, e.target.value]
+        : current.filter((option) => option !== e.target.value);
+      onChange(field.name, parseMultiValue(field, selected));
     },
-    [field.name, onChange]
+    [field, onChange, value]
   );
 
   const handleBlur = useCallback(() => {
@@ -42,7 +80,42 @@ export const FormField: React.FC<FormFieldProps> = ({
 
   const handleFocus = useCallback(() => {
     // Used for focus state tracking if needed in future
-  }, []);  const isError = touched && error;
+  }, []);
+
+  const displayValue = formatInputValue(field, value, typed);
+  const selectedOptions = Array.isArray(value) ? value.map(String) : [];
+  const ruleTypes = (field.validators ?? []).map((rule) => (typeof rule === 'string' ? rule : rule.type));
+  const text = (key: string, params?: Record<string, unknown>) =>
+    formatMessage(resolveMessage(key, locale, messageBundles) ?? key, params, locale);
+  // Card number fields show the brand detected so far
+  const cardBrand = ruleTypes.includes('creditCard') ? detectCardBrand(displayValue) : null;
+
+  // Scored as the user types, independent of the validation mode
+  const showStrength = (field.showStrength ?? ruleTypes.includes('passwordStrength')) && displayValue !== '';
+  const lengthRule = field.validators?.find(
+    (rule): rule is ValidationRule => typeof rule !== 'string' && rule.type === 'minLength'
+  );
+  const minPasswordLength = Number(lengthRule?.value ?? field.minLength ?? 8);
+  const strength = showStrength ? scorePassword(displayValue, minPasswordLength) : null;
+
+  const isError = touched && error;
+  const showWarning = touched && !isError && !!warning;
+  const showInfo = touched && !isError && !!info;
+  const showChecklist = field.errorDisplay === 'checklist' && !!field.validators?.length;
+  const describedBy = [
+    showChecklist && `${field.name}-checklist`,
+    strength && `${field.name}-strength`,
+    isError && !showChecklist && `${field.name}-error`,
+    !isError && showWarning && `${field.name}-warning`,
+    !isError && showInfo && `${field.name}-info`,
+  ]
+    .filter(Boolean)
+    .join(' ') || undefined;
+
+  // 'all' lists every failing error rule; server errors have no rule failures and fall back to `error`
+  const blockingFailures = (fieldErrors ?? []).filter((failure) => (failure.severity ?? 'error') === 'error');
+  const errorMessages =
+    field.errorDisplay === 'all' && blockingFailures.length > 0 ? blockingFailures.map((f) => f.message) : [error];
   const fieldClassName = [
     'form-group',
     isError && showAnimation && 'has-error',
@@ -52,12 +125,57 @@ export const FormField: React.FC<FormFieldProps> = ({
 
   const inputClassName = [
     'form-input',
+    validating && 'validating',
     isError && 'error',
-    !isError && value && 'success',
+    showWarning && 'warning',
+    !isError && !showWarning && !validating && (Array.isArray(value) ? value.length > 0 : value) && 'success',
   ]
     .filter(Boolean)
     .join(' ');
 
+  const messages = (
+    <>
+      {showChecklist && (
+        <ul id={`${field.name}-checklist`} className="form-checklist">
+          {field.validators?.map((entry, index) => {
+            const rule = typeof entry === 'string' ? { type: entry as ValidatorType } : entry;
+            if ((rule.severity ?? 'error') !== 'error') return null;
+            const failure = fieldErrors?.find((f) => f.ruleIndex === index);
+            // Rules only count as met once the field was validated
+            const met = fieldErrors !== undefined && !failure;
+            return (
+              <li key={index} className={['form-checklist-item', met ? 'met' : 'unmet'].join(' ')}>
+                <span className="checklist-icon" aria-hidden="true">{met ? '✓' : '○'}</span>
+                <span>
+                  {failure?.message ??
+                    getRuleMessage(rule, { locale, messages: messageBundles, label: field.label ?? field.name })}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {isError && (!showChecklist || blockingFailures.length === 0) && errorMessages.map((message, index) => (
+        <div key={index} id={index === 0 ? `${field.name}-error` : undefined} className="form-error">
+          <span className="error-icon">⚠</span>
+          <span>{message}</span>
+        </div>
+      ))}
+      {showWarning && (
+        <div id={`${field.name}-warning`} className={['form-warning', warningClass].filter(Boolean).join(' ')}>
+          <span className="warning-icon">⚠</span>
+          <span>{warning}</span>
+        </div>
+      )}
+      {showInfo && (
+        <div id={`${field.name}-info`} className="form-info">
+          <span className="info-icon">ℹ</span>
+          <span>{info}</span>
+        </div>
+      )}
+    </>
+  );
+
   // Render based on field type
   switch (field.type) {
     case 'textarea':
@@ -73,22 +191,18 @@ export const FormField: React.FC<FormFieldProps> = ({
             id={field.name}
             name={field.name}
             placeholder={field.placeholder}
-            value={String(value ?? '')}
+            value={displayValue}
             onChange={handleChange}
             onBlur={handleBlur}
             onFocus={handleFocus}
             disabled={disabled || field.disabled}
             rows={field.rows || 4}
             className={`${inputClassName} form-textarea`}
+            aria-busy={validating || undefined}
             aria-invalid={!!isError}
-            aria-describedby={isError ? `${field.name}-error` : undefined}
+            aria-describedby={describedBy}
           />
-          {isError && (
-            <div id={`${field.name}-error`} className="form-error">
-              <span className="error-icon">⚠</span>
-              <span>{error}</span>
-            </div>
-          )}
+          {messages}
         </div>
       );
 
@@ -104,32 +218,59 @@ export const FormField: React.FC<FormFieldProps> = ({
           <select
             id={field.name}
             name={field.name}
-            value={String(value ?? '')}
+            value={field.multiple ? selectedOptions : displayValue}
+            multiple={field.multiple}
             onChange={handleChange}
             onBlur={handleBlur}
             onFocus={handleFocus}
             disabled={disabled || field.disabled}
             className={`${inputClassName} form-select`}
             aria-invalid={!!isError}
-            aria-describedby={isError ? `${field.name}-error` : undefined}
+            aria-describedby={describedBy}
           >
-            <option value="">Select {field.label || field.name}</option>
+            {!field.multiple && <option value="">Select {field.label || field.name}</option>}
             {field.options?.map((opt) => (
               <option key={opt.value} value={opt.value}>
                 {opt.label}
               </option>
             ))}
           </select>
-          {isError && (
-            <div id={`${field.name}-error`} className="form-error">
-              <span className="error-icon">⚠</span>
-              <span>{error}</span>
-            </div>
-          )}
+          {messages}
         </div>
       );
 
     case 'checkbox':
+      if (field.options?.length) {
+        return (
+          <div className={fieldClassName}>
+            {field.label && (
+              <label className={`form-label ${isError ? 'error' : ''}`}>
+                {field.label}
+                {field.required && <span className="required-indicator">*</span>}
+              </label>
+            )}
+            <fieldset aria-describedby={describedBy}>
+              {field.options.map((opt) => (
+                <label key={opt.value} style={{ display: 'flex', alignItems: 'center', marginBottom: '0.5rem', cursor: 'pointer' }}>
+                  <input
+                    name={field.name}
+                    type="checkbox"
+                    value={opt.value}
+                    checked={selectedOptions.includes(String(opt.value))}
+                    onChange={handleGroupChange}
+                    onBlur={handleBlur}
+                    disabled={disabled || field.disabled}
+                    className="form-checkbox"
+                    aria-invalid={!!isError}
+                  />
+                  <span style={{ marginLeft: '0.5rem' }}>{opt.label}</span>
+                </label>
+              ))}
+            </fieldset>
+            {messages}
+          </div>
+        );
+      }
       return (
         <div className={fieldClassName}>
           <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
@@ -149,12 +290,7 @@ export const FormField: React.FC<FormFieldProps> = ({
               {field.label || field.placeholder}
             </span>
           </label>
-          {isError && (
-            <div id={`${field.name}-error`} className="form-error">
-              <span className="error-icon">⚠</span>
-              <span>{error}</span>
-            </div>
-          )}
+          {messages}
         </div>
       );
 
@@ -184,16 +320,11 @@ export const FormField: React.FC<FormFieldProps> = ({
               </label>
             ))}
           </fieldset>
-          {isError && (
-            <div id={`${field.name}-error`} className="form-error">
-              <span className="error-icon">⚠</span>
-              <span>{error}</span>
-            </div>
-          )}
+          {messages}
         </div>
       );
 
-    default:
+    case 'file':
       return (
         <div className={fieldClassName}>
           {field.label && (
@@ -202,32 +333,120 @@ export const FormField: React.FC<FormFieldProps> = ({
               {field.required && <span className="required-indicator">*</span>}
             </label>
           )}
-          <input
-            id={field.name}
-            name={field.name}
-            type={field.type || 'text'}
-            placeholder={field.placeholder}
-            value={String(value ?? '')}
-            onChange={handleChange}
-            onBlur={handleBlur}
-            onFocus={handleFocus}
+          <FileField
+            field={field}
+            value={value}
+            onChange={onChange}
+            onBlur={onBlur}
             disabled={disabled || field.disabled}
-            minLength={field.minLength}
-            maxLength={field.maxLength}
-            pattern={typeof field.pattern === 'string' ? field.pattern : undefined}
-            className={inputClassName}
-            aria-invalid={!!isError}
-            aria-describedby={isError ? `${field.name}-error` : undefined}
+            invalid={!!isError}
+            describedBy={describedBy}
           />
-          {isError && (
-            <div id={`${field.name}-error`} className="form-error">
-              <span className="error-icon">⚠</span>
-              <span>{error}</span>
+          {messages}
+        </div>
+      );
+
+    default: {
+      const isPassword = field.type === 'password';
+      const input = (
+        <input
+          id={field.name}
+          name={field.name}
+          type={isPassword && passwordVisible ? 'text' : field.type || 'text'}
+          placeholder={field.placeholder}
+          value={displayValue}
+          onChange={handleChange}
+          onBlur={handleBlur}
+          onFocus={handleFocus}
+          disabled={disabled || field.disabled}
+          minLength={field.minLength}
+          maxLength={field.maxLength}
+          pattern={typeof field.pattern === 'string' ? field.pattern : undefined}
+          {...getInputConstraints(field)}
+          className={inputClassName}
+          aria-busy={validating || undefined}
+          aria-invalid={!!isError}
+          aria-describedby={describedBy}
+          data-card-brand={cardBrand?.id}
+        />
+      );
+
+      return (
+        <div className={fieldClassName}>
+          {field.label && (
+            <label className={`form-label ${isError ? 'error' : ''}`}>
+              {field.label}
+              {field.required && <span className="required-indicator">*</span>}
+            </label>
+          )}
+          {isPassword && field.passwordToggle !== false ? (
+            <div className="form-password">
+              {input}
+              <button
+                type="button"
+                className="form-password-toggle"
+                onClick={() => setPasswordVisible((visible) => !visible)}
+                disabled={disabled || field.disabled}
+                aria-controls={field.name}
+                aria-pressed={passwordVisible}
+              >
+                {text(passwordVisible ? 'hidePassword' : 'showPassword')}
+              </button>
             </div>
+          ) : (
+            input
           )}
+          {cardBrand && (
+            <div className="form-card-brand" aria-live="polite">
+              {cardBrand.label}
+            </div>
+          )}
+          {strength && (
+            <div id={`${field.name}-strength`} className="form-strength">
+              <div
+                className="form-strength-bar"
+                role="meter"
+                aria-label={field.label ?? field.name}
+                aria-valuemin={0}
+                aria-valuemax={4}
+                aria-valuenow={strength.score}
+                aria-valuetext={text(`passwordScore${strength.score}`)}
+              >
+                <div
+                  className={`form-strength-fill score-${strength.score}`}
+                  style={{ width: `${(strength.score + 1) * 20}%` }}
+                />
+              </div>
+              <span className="form-strength-label">{text(`passwordScore${strength.score}`)}</span>
+              <ul className="form-checklist">
+                {strength.requirements
+                  .filter((requirement) => !requirement.met)
+                  .map(({ id }) => (
+                    <li key={id} className="form-checklist-item unmet">
+                      <span className="checklist-icon" aria-hidden="true">○</span>
+                      <span>
+                        {text(`password${id[0].toUpperCase()}${id.slice(1)}`, { value: minPasswordLength })}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+          {messages}
         </div>
       );
+    }
   }
 };
 
+/**
+ * FormField component - Renders individual form fields with validation and animations.
+ * A renderer registered for the field's type (`fieldRenderers`) replaces the built-in input.
+ */
+export const FormField: React.FC<FieldRendererProps> = (props) => {
+  const renderers = useFieldRenderers();
+  const Renderer = renderers[props.field.type ?? 'text'] ?? BuiltInField;
+  return <Renderer {...props} />;
+};
+
 export default FormField;
@@ -0,0 +1,63 @@
+import { useMemo } from 'react';
+import type { FieldRenderers } from '../hooks/useFieldRenderers';
+import { FormMessagesContext, useFormMessages } from '../hooks/useFormMessages';
+import type { FormController } from '../hooks/useFormValidator';
+import type { LocaleBundles } from '../lib/messages';
+import type { FieldValues } from '../lib/typedFields';
+import type { CustomizationOptions, FieldConfig } from '../lib/types';
+import FieldList from './FieldList';
+import FieldRenderersProvider from './FieldRenderersProvider';
+import FormProvider from './FormProvider';
+
+interface FormFieldsProps<TValues extends FieldValues> {
+  form: FormController<TValues>;
+  fields: FieldConfig[]; // the visible fields to render
+  locale?: string; // overrides the FormMessagesProvider locale for checklists
+  messages?: LocaleBundles;
+  fieldRenderers?: FieldRenderers;
+  customization?: CustomizationOptions;
+  disabled?: boolean;
+}
+
+/**
+ * FormFields component - Renders a form's fields with its locale, renderers and context,
+ * each field subscribed to its own state (shared by DynamicForm and WizardForm)
+ */
+export const FormFields = <TValues extends FieldValues = FieldValues>({
+  form,
+  fields,
+  locale,
+  messages,
+  fieldRenderers,
+  customization,
+  disabled = false,
+}: FormFieldsProps<TValues>) => {
+  // Field checklists render rule messages in the form's locale
+  const parentMessages = useFormMessages();
+  const messageContext = useMemo(
+    () => ({ locale: locale ?? parentMessages.locale, messages: messages ?? parentMessages.messages }),
+    [locale, messages, parentMessages]
+  );
+
+  return (
+    <FormMessagesContext.Provider value={messageContext}>
+      <FieldRenderersProvider renderers={fieldRenderers}>
+        <FormProvider form={form}>
+          <FieldList
+            fields={fields}
+            onChange={form.setValueAtPath}
+            onBlur={form.setFieldTouched}
+            onAppend={form.appendItem}
+            onRemove={form.removeItem}
+            onMove={form.moveItem}
+            disabled={disabled}
+            showAnimation={customization?.showAnimations !== false}
+            warningClass={customization?.warningClass}
+          />
+        </FormProvider>
+      </FieldRenderersProvider>
+    </FormMessagesContext.Provider>
+  );
+};
+
+export default FormFields;
@@ -0,0 +1,19 @@
+import React, { useMemo } from 'react';
+import { FormMessagesContext } from '../hooks/useFormMessages';
+import type { LocaleBundles } from '../lib/messages';
+
+interface FormMessagesProviderProps {
+  locale: string;
+  messages?: LocaleBundles;
+  children: React.ReactNode;
+}
+
+/**
+ * FormMessagesProvider component - Supplies the locale and message bundles used by validation messages
+ */
+export const FormMessagesProvider: React.FC<FormMessagesProviderProps> = ({ locale, messages, children }) => {
+  const value = useMemo(() => ({ locale, messages }), [locale, messages]);
+  return <FormMessagesContext.Provider value={value}>{children}</FormMessagesContext.Provider>;
+};
+
+export default FormMessagesProvider;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { FormContext } from '../hooks/useFormContext';
+import type { FormController } from '../hooks/useFormValidator';
+import type { FieldValues } from '../lib/typedFields';
+
+interface FormProviderProps<TValues extends FieldValues> {
+  form: FormController<TValues>; // what useFormController, useFormValidator or useWizard returned
+  children: React.ReactNode;
+}
+
+/**
+ * FormProvider component - Makes a form available to useField, useFormState and useFormContext
+ */
+export const FormProvider = <TValues extends FieldValues = FieldValues>({
+  form,
+  children,
+}: FormProviderProps<TValues>) => (
+  <FormContext.Provider value={form}>{children}</FormContext.Provider>
+);
+
+export default FormProvider;
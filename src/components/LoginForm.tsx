@@ -22,7 +22,8 @@ const loginFields: FieldConfig[] = [
     required: true,
     validators: [
       { type: "required", message: "Password is required" },
-      { type: "minLength", value: 6, message: "Password must be at least 6 characters" }
+      { type: "minLength", value: 6, message: "Password must be at least 6 characters" },
+      { type: "passwordStrength", value: 2, message: "Please choose a stronger password" }
     ]
   },
   {
@@ -0,0 +1,59 @@
+import { act } from 'react';
+import { describe, expect, it } from 'vitest';
+import type { WizardStep } from '../lib/types';
+import { changedSince, createCountingRenderer, createFields, render, type } from '../test/utils';
+import WizardForm from './WizardForm';
+
+const steps: WizardStep[] = [
+  { id: 'details', fields: createFields(40) },
+  { id: 'confirm', fields: [{ name: 'notes' }] },
+];
+
+describe('WizardForm render counts', () => {
+  it('re-renders only the field being typed into', async () => {
+    const { renders, Counting } = createCountingRenderer();
+    const container = render(<WizardForm steps={steps} onSubmit={() => {}} fieldRenderers={{ text: Counting }} />);
+    expect(Object.keys(renders)).toHaveLength(40);
+
+    const before = { ...renders };
+    const input = container.querySelector<HTMLInputElement>('#field3')!;
+    await type(input, 'hello');
+
+    expect(input.value).toBe('hello');
+    expect(renders.field3 - before.field3).toBe(5);
+    expect(changedSince(renders, before)).toEqual(['field3']);
+  });
+});
+
+describe('WizardForm steps', () => {
+  it('shows an error thrown by a rule on Next and stays on the step', async () => {
+    const throwingSteps: WizardStep[] = [
+      {
+        id: 'account',
+        fields: [
+          {
+            name: 'username',
+            validators: [
+              {
+                type: 'custom',
+                custom: () => {
+                  throw new Error('Lookup service unavailable');
+                },
+              },
+            ],
+          },
+        ],
+      },
+      { id: 'confirm', fields: [{ name: 'notes' }] },
+    ];
+    const container = render(<WizardForm steps={throwingSteps} onSubmit={() => {}} />);
+
+    await act(async () => {
+      container.querySelector('form')!.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+    });
+
+    expect(container.querySelector('.error-boundary')?.textContent).toContain('Lookup service unavailable');
+    expect(container.querySelector('#username')).not.toBeNull();
+    expect(container.querySelector('[aria-current="step"]')?.textContent).toContain('account');
+  });
+});
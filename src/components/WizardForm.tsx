@@ -0,0 +1,231 @@
+import React, { useEffect } from 'react';
+import { useControllerSubmission } from '../hooks/useControllerSubmission';
+import type { FieldRenderers } from '../hooks/useFieldRenderers';
+import { useStoreSelector } from '../hooks/useFormState';
+import { useWizardController } from '../hooks/useWizard';
+import { getActiveFields } from '../lib/conditions';
+import { isEqual } from '../lib/dirty';
+import type { LocaleBundles } from '../lib/messages';
+import type { ValidatorRegistry } from '../lib/registry';
+import type { SanitizePipeline } from '../lib/sanitize';
+import type { DeepPartial, FieldValues } from '../lib/typedFields';
+import type {
+  CustomizationOptions,
+  FormSubmitHandler,
+  FormValidator,
+  PersistOptions,
+  WizardStep,
+} from '../lib/types';
+import DraftBanner from './DraftBanner';
+import FormErrors from './FormErrors';
+import FormFields from './FormFields';
+
+interface WizardFormProps<TValues> {
+  steps: WizardStep[];
+  onSubmit: FormSubmitHandler<TValues>;
+  validationMode?: 'onChange' | 'onBlur' | 'onSubmit';
+  customization?: CustomizationOptions;
+  submitButtonText?: string;
+  nextButtonText?: string;
+  backButtonText?: string;
+  showProgress?: boolean;
+  disabled?: boolean;
+  className?: string;
+  submitThrottleMs?: number;
+  validatorRegistry?: ValidatorRegistry;
+  initialValues?: DeepPartial<TValues>; // nested initial values shared by all steps
+  locale?: string;
+  messages?: LocaleBundles;
+  persist?: PersistOptions; // autosave drafts to storage and restore them on mount
+  collectAllErrors?: boolean; // run every rule and keep all failures in formState.fieldErrors
+  formValidators?: FormValidator<TValues>[]; // cross-field rules returning errors keyed by field path or '_form'
+  onStepChange?: (stepIndex: number, step: WizardStep) => void;
+  sanitize?: boolean | Record<string, SanitizePipeline>; // default pipelines by input type (true = DEFAULT_SANITIZERS)
+  fieldRenderers?: FieldRenderers; // custom components by field type, merged over FieldRenderersProvider
+}
+
+/**
+ * WizardForm component - Multi-step form where each step is validated before moving on
+ */
+export const WizardForm = <TValues extends FieldValues = FieldValues>({
+  steps,
+  onSubmit,
+  validationMode = 'onBlur',
+  customization,
+  submitButtonText = 'Submit',
+  nextButtonText = 'Next',
+  backButtonText = 'Back',
+  showProgress = true,
+  disabled = false,
+  className,
+  submitThrottleMs = 1000,
+  validatorRegistry,
+  initialValues,
+  locale,
+  messages,
+  persist,
+  collectAllErrors = false,
+  formValidators,
+  onStepChange,
+  sanitize = false,
+  fieldRenderers,
+}: WizardFormProps<TValues>) => {
+  const wizard = useWizardController<TValues>(steps, {
+    validationMode,
+    registry: validatorRegistry,
+    initialValues,
+    locale,
+    messages,
+    persist,
+    collectAllErrors,
+    formValidators,
+  });
+  const {
+    store,
+    draft,
+    currentStep,
+    currentStepIndex,
+    completedSteps,
+    isFirstStep,
+    isLastStep,
+    next,
+    back,
+    goToStep,
+    canGoToStep,
+  } = wizard;
+
+  // Fields subscribe to their own state; the wizard itself only to what it renders below
+  const activeFields = useStoreSelector(
+    store,
+    (state) => getActiveFields(currentStep?.fields ?? [], state.values as Record<string, unknown>),
+    isEqual
+  );
+  const isValidating = useStoreSelector(store, (state) => state.isValidating);
+
+  const { handleSubmit, isSubmitting, isThrottled, submitError, setSubmitError } = useControllerSubmission(wizard, onSubmit, {
+    submitThrottleMs,
+    sanitize,
+  });
+
+  useEffect(() => {
+    onStepChange?.(currentStepIndex, steps[currentStepIndex]);
+  }, [currentStepIndex, steps, onStepChange]);
+
+  // Intermediate steps advance instead of submitting (e.g. on Enter)
+  const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    if (isLastStep) {
+      handleSubmit(e);
+      return;
+    }
+    e.preventDefault();
+    setSubmitError(null);
+    // A rule that throws keeps the step; show the error as a failed submit would
+    next().catch((error: unknown) => {
+      setSubmitError(error instanceof Error ? error.message : 'An error occurred during validation');
+    });
+  };
+
+  const containerClass = [
+    'form-container',
+    className,
+    customization?.containerClass,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  const buttonClass = [
+    'form-button',
+    'primary',
+    customization?.buttonClass,
+    isSubmitting && 'loading',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  const backButtonClass = [
+    'form-button',
+    'secondary',
+    customization?.buttonClass,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  if (!currentStep) {
+    return null;
+  }
+
+  return (
+    <form onSubmit={handleFormSubmit} className={customization?.formClass}>
+      <div className={containerClass}>
+        {/* Step progress indicator */}
+        {showProgress && (
+          <ol className="wizard-steps">
+            {steps.map((step, index) => {
+              const stepClass = [
+                'wizard-step',
+                index === currentStepIndex && 'active',
+                completedSteps.includes(index) && 'completed',
+              ]
+                .filter(Boolean)
+                .join(' ');
+
+              return (
+                <li key={step.id} className={stepClass} aria-current={index === currentStepIndex ? 'step' : undefined}>
+                  <button
+                    type="button"
+                    onClick={() => goToStep(index)}
+                    disabled={disabled || isSubmitting || index === currentStepIndex || !canGoToStep(index)}
+                  >
+                    {index + 1}. {step.title || step.id}
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {currentStep.description && <p className="wizard-step-description">{currentStep.description}</p>}
+
+        {/* Saved draft prompt (persist.restore === 'manual') */}
+        <DraftBanner draft={draft} />
+
+        {/* Render the current step's visible fields */}
+        <FormFields
+          form={wizard}
+          fields={activeFields}
+          locale={locale}
+          messages={messages}
+          fieldRenderers={fieldRenderers}
+          customization={customization}
+          disabled={disabled}
+        />
+
+        <FormErrors form={wizard} submitError={submitError} />
+
+        {/* Buttons */}
+        <div style={{ display: 'flex', gap: '1rem', marginTop: '1rem' }}>
+          {!isFirstStep && (
+            <button
+              type="button"
+              onClick={back}
+              disabled={disabled || isSubmitting}
+              className={backButtonClass}
+            >
+              {backButtonText}
+            </button>
+          )}
+
+          <button
+            type="submit"
+            disabled={disabled || isSubmitting || (isLastStep && isThrottled) || isValidating}
+            className={buttonClass}
+          >
+            {isLastStep ? (isSubmitting ? 'Submitting...' : submitButtonText) : nextButtonText}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default WizardForm;
@@ -0,0 +1,70 @@
+/**
+ * Submission wiring shared by DynamicForm and WizardForm
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { DEFAULT_SANITIZERS, sanitizeFormValues, type SanitizePipeline } from '../lib/sanitize';
+import type { FieldValues } from '../lib/typedFields';
+import type { FormSubmitHandler } from '../lib/types';
+import { useStoreSelector } from './useFormState';
+import { useFormSubmission, type FormController } from './useFormValidator';
+
+/**
+ * Options for useControllerSubmission
+ */
+export interface ControllerSubmissionOptions<TValues> {
+  submitThrottleMs?: number;
+  /** Default pipelines by input type (true = DEFAULT_SANITIZERS); field-level `sanitize` always applies */
+  sanitize?: boolean | Record<string, SanitizePipeline>;
+  /** Called after a successful submit, once the draft was cleared */
+  onSuccess?: (values: TValues) => void;
+}
+
+/**
+ * useFormSubmission for a form controller: submits the visible values, sanitized, shows returned
+ * server errors on the fields, clears the draft on success and drops the submit error once
+ * every field error is fixed.
+ */
+export function useControllerSubmission<TValues extends FieldValues>(
+  form: FormController<TValues>,
+  onSubmit: FormSubmitHandler<TValues>,
+  options: ControllerSubmissionOptions<TValues> = {}
+) {
+  const { submitThrottleMs = 1000, sanitize = false, onSuccess } = options;
+  const { fields, store, getSubmitValues, validateFormFields, setFieldErrors, draft } = form;
+  const { clearDraft } = draft;
+
+  const sanitizeSubmitValues = useCallback(
+    (values: TValues) => sanitizeFormValues(values, fields, sanitize === true ? DEFAULT_SANITIZERS : sanitize || {}),
+    [fields, sanitize]
+  );
+
+  const handleSuccess = useCallback(
+    (values: TValues) => {
+      clearDraft();
+      onSuccess?.(values);
+    },
+    [clearDraft, onSuccess]
+  );
+
+  const submission = useFormSubmission(onSubmit, validateFormFields, getSubmitValues, submitThrottleMs, {
+    setErrors: setFieldErrors,
+    onSuccess: handleSuccess,
+    sanitize: sanitizeSubmitValues,
+  });
+  const { submitError, setSubmitError } = submission;
+
+  // Auto-clear submit error when the field errors are resolved; errors without any (e.g. a
+  // throwing onSubmit) stay until the next attempt
+  const hasErrors = useStoreSelector(store, (state) => Object.values(state.errors).some(Boolean));
+  const hadErrorsRef = useRef(hasErrors);
+  useEffect(() => {
+    const hadErrors = hadErrorsRef.current;
+    hadErrorsRef.current = hasErrors;
+    if (hadErrors && !hasErrors && submitError) {
+      setSubmitError(null);
+    }
+  }, [hasErrors, submitError, setSubmitError]);
+
+  return submission;
+}
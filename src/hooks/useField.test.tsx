@@ -0,0 +1,69 @@
+import { act } from 'react';
+import { describe, expect, it } from 'vitest';
+import FormProvider from '../components/FormProvider';
+import type { FieldConfig } from '../lib/types';
+import { render, setInputValue } from '../test/utils';
+import { useField } from './useField';
+import { useFormController, type FormController } from './useFormValidator';
+
+const fields: FieldConfig[] = [
+  { name: 'age', type: 'number', validators: [{ type: 'min', value: 18 }] },
+  { name: 'phones', type: 'array', fields: [{ name: 'number', mask: '999-9999' }], defaultValue: [{ number: '' }] },
+];
+
+function Input({ name }: { name: string }) {
+  const { inputProps, error, touched } = useField(name);
+  return (
+    <>
+      <input {...inputProps} />
+      {touched && error && <span className="error">{error}</span>}
+    </>
+  );
+}
+
+function renderForm() {
+  const form = {} as { current: FormController };
+  const Form = () => {
+    form.current = useFormController(fields);
+    return (
+      <FormProvider form={form.current}>
+        <Input name="age" />
+        <Input name="phones[0].number" />
+      </FormProvider>
+    );
+  };
+  const container = render(<Form />);
+  const input = (id: string) => container.querySelector<HTMLInputElement>(`[id="${id}"]`)!;
+  return { container, form, input };
+}
+
+describe('useField', () => {
+  it('parses input with the field config and keeps the typed text', async () => {
+    const { form, input } = renderForm();
+
+    await setInputValue(input('age'), '17.0');
+    expect(form.current.store.getState().values.age).toBe(17);
+    expect(input('age').value).toBe('17.0');
+  });
+
+  it('resolves array row paths to the row field config', async () => {
+    const { form, input } = renderForm();
+
+    await setInputValue(input('phones[0].number'), '5551234');
+    expect(input('phones[0].number').value).toBe('555-1234');
+    expect(form.current.store.getState().values.phones).toEqual([{ number: '555-1234' }]);
+  });
+
+  it('reports the error once the field is touched', async () => {
+    const { container, input } = renderForm();
+
+    await setInputValue(input('age'), '17');
+    expect(container.querySelector('.error')).toBeNull();
+    await act(async () => {
+      input('age').focus();
+      input('age').blur();
+    });
+    expect(container.querySelector('.error')?.textContent).toBe('This field must be at least 18');
+    expect(input('age').getAttribute('aria-invalid')).toBe('true');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * useField - one field's state and input bindings from the surrounding FormProvider
+ */
+
+import { useCallback, useMemo, useState, type ChangeEvent } from 'react';
+import { formatInputValue, parseInputValue } from '../lib/coercion';
+import { findFieldConfig } from '../lib/fieldArrays';
+import { selectFieldState, shallowEqual, type FieldStateSlice } from '../lib/formStore';
+import type { FieldConfig } from '../lib/types';
+import { useFormContext } from './useFormContext';
+import { useStoreSelector } from './useFormState';
+
+/** Props to spread on an `<input>`, `<select>` or `<textarea>` */
+export interface FieldInputProps {
+  id: string;
+  name: string;
+  value: string; // formatted for display (format / mask / date inputs)
+  checked?: boolean; // checkbox fields
+  onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
+  onBlur: () => void;
+  'aria-invalid': boolean;
+}
+
+/** State and actions of one field */
+export interface FieldHandle<TValue = unknown> extends Omit<FieldStateSlice, 'value'> {
+  /** The field's config, or `{ name }` when the form has none for this path */
+  field: FieldConfig;
+  value: TValue;
+  setValue: (value: TValue) => void;
+  setTouched: () => void;
+  inputProps: FieldInputProps;
+}
+
+/**
+ * Bind one field (`email`, `address.zip`, `phones.0.number`) of the surrounding form.
+ * Input values are parsed and formatted the way FormField does, using the field's config.
+ * The component re-renders only when this field's state changes. The error is reported
+ * before the field was touched too; show it when `touched`.
+ */
+export function useField<TValue = unknown>(name: string): FieldHandle<TValue> {
+  const { fields, store, setValueAtPath, setFieldTouched } = useFormContext();
+  const state = useStoreSelector(store, (formState) => selectFieldState(formState, name), shallowEqual);
+  const field = useMemo(() => findFieldConfig(fields, name) ?? { name }, [fields, name]);
+  const value = state.value as TValue;
+
+  const setValue = useCallback(
+    (next: TValue) => {
+      setValueAtPath(name, next);
+    },
+    [name, setValueAtPath]
+  );
+
+  const setTouched = useCallback(() => setFieldTouched(name), [name, setFieldTouched]);
+
+  // Last text typed, so number inputs keep '1.0' while the value is 1
+  const [typed, setTyped] = useState<string>();
+
+  const onChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+      const checked = e.target.type === 'checkbox' ? (e.target as HTMLInputElement).checked : undefined;
+      setTyped(e.target.value);
+      setValue(parseInputValue(field, e.target.value, checked) as TValue);
+    },
+    [field, setValue]
+  );
+
+  return {
+    ...state,
+    field,
+    value,
+    setValue,
+    setTouched,
+    inputProps: {
+      id: name,
+      name,
+      value: formatInputValue(field, value, typed),
+      ...(field.type === 'checkbox' && { checked: Boolean(value) }),
+      onChange,
+      onBlur: setTouched,
+      'aria-invalid': Boolean(state.touched && state.error),
+    },
+  };
+}
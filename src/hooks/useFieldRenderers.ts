@@ -0,0 +1,37 @@
+/**
+ * Field renderer context - components that replace FormField's built-in inputs by field type
+ */
+
+import { createContext, useContext, type ComponentType } from 'react';
+import type { FieldBlurHandler, FieldChangeHandler, FieldConfig, FieldError } from '../lib/types';
+
+/**
+ * Props a field renderer receives - the same contract as the built-in FormField
+ */
+export interface FieldRendererProps {
+  field: FieldConfig;
+  value: unknown;
+  error: string;
+  touched: boolean;
+  onChange: FieldChangeHandler;
+  onBlur: FieldBlurHandler;
+  disabled?: boolean;
+  showAnimation?: boolean;
+  validating?: boolean; // async validation in flight
+  warning?: string; // non-blocking message from severity: 'warning' rules
+  info?: string; // non-blocking message from severity: 'info' rules
+  warningClass?: string;
+  fieldErrors?: FieldError[]; // every failing rule; undefined until the field was validated
+}
+
+/** Components keyed by field type; built-in types ('text', 'select', ...) can be replaced too */
+export type FieldRenderers = Record<string, ComponentType<FieldRendererProps>>;
+
+export const FieldRenderersContext = createContext<FieldRenderers>({});
+
+/**
+ * Read the renderers registered by the nearest FieldRenderersProvider or form
+ */
+export function useFieldRenderers(): FieldRenderers {
+  return useContext(FieldRenderersContext);
+}
@@ -0,0 +1,23 @@
+/**
+ * useFilePreviews - object URLs for showing image files as thumbnails
+ */
+
+import { useEffect, useState } from 'react';
+import { isImageFile } from '../lib/files';
+
+/**
+ * Preview URL per image file. URLs are revoked when the files change or on unmount.
+ * Pass a stable array (e.g. the field value from form state).
+ */
+export function useFilePreviews(files: File[]): Map<File, string> {
+  const [previews, setPreviews] = useState<Map<File, string>>(() => new Map());
+
+  useEffect(() => {
+    if (typeof URL.createObjectURL !== 'function') return;
+    const urls = new Map(files.filter(isImageFile).map((file) => [file, URL.createObjectURL(file)]));
+    setPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [files]);
+
+  return previews;
+}
@@ -0,0 +1,22 @@
+/**
+ * Form context - shares a form's state and actions with hand-built field components
+ */
+
+import { createContext, useContext } from 'react';
+import type { FieldValues } from '../lib/typedFields';
+import type { FormController } from './useFormValidator';
+
+export const FormContext = createContext<FormController<FieldValues> | null>(null);
+
+/**
+ * The form API of the nearest FormProvider (or DynamicForm / WizardForm). Its actions are stable;
+ * read state with useFormState or `store`. Pass `TValues` for typed values; they are not checked
+ * against the provider's form.
+ */
+export function useFormContext<TValues extends FieldValues = FieldValues>(): FormController<TValues> {
+  const form = useContext(FormContext);
+  if (!form) {
+    throw new Error('[formguardian] useFormContext() and useField() must be used inside a FormProvider');
+  }
+  return form as FormController<TValues>;
+}
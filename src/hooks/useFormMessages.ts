@@ -0,0 +1,23 @@
+/**
+ * Locale context for validation messages
+ */
+
+import { createContext, useContext } from 'react';
+import type { LocaleBundles } from '../lib/messages';
+
+/**
+ * Locale and message bundles shared by the forms below a FormMessagesProvider
+ */
+export interface FormMessagesContextValue {
+  locale?: string;
+  messages?: LocaleBundles;
+}
+
+export const FormMessagesContext = createContext<FormMessagesContextValue>({});
+
+/**
+ * Read the nearest FormMessagesProvider's locale and bundles
+ */
+export function useFormMessages(): FormMessagesContextValue {
+  return useContext(FormMessagesContext);
+}
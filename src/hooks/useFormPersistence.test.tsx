@@ -0,0 +1,117 @@
+import { act } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorageAdapter, type StorageAdapter } from '../lib/storage';
+import type { FieldConfig, PersistOptions } from '../lib/types';
+import { renderHook, wait } from '../test/utils';
+import { useFormController } from './useFormValidator';
+
+const fields: FieldConfig[] = [
+  { name: 'name' },
+  { name: 'password', type: 'password' },
+  { name: 'notes' },
+  { name: 'born', type: 'date' },
+  { name: 'age', type: 'number' },
+];
+
+const draftOf = (values: Record<string, unknown>) => JSON.stringify({ values, savedAt: 1 });
+
+function renderForm(persist: PersistOptions) {
+  const { result } = renderHook(() => useFormController(fields, 'onBlur', 300, { persist }));
+  return result;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('useFormPersistence', () => {
+  it('restores a draft without the fields that are never saved', async () => {
+    const storage = createMemoryStorageAdapter({
+      form: draftOf({ name: 'Ann', password: 'secret', notes: 'private', age: 42 }),
+    });
+    const form = renderForm({ key: 'form', storage, exclude: ['notes'] });
+    await act(async () => {});
+
+    const { values } = form.current.store.getState();
+    expect(values).toMatchObject({ name: 'Ann', password: '', notes: '', age: 42 });
+  });
+
+  it('restores dates as Dates', async () => {
+    const born = new Date(1990, 4, 17);
+    const storage = createMemoryStorageAdapter({ form: draftOf({ born: born.toJSON() }) });
+    const form = renderForm({ key: 'form', storage });
+    await act(async () => {});
+
+    const restored = form.current.store.getState().values.born;
+    expect(restored).toBeInstanceOf(Date);
+    expect((restored as Date).getTime()).toBe(born.getTime());
+  });
+
+  it('autosaves edits after the debounce and removes the draft when the values are pristine again', async () => {
+    const storage = createMemoryStorageAdapter();
+    const form = renderForm({ key: 'form', storage, debounceMs: 10 });
+    await act(async () => {});
+
+    await act(async () => {
+      await form.current.setValueAtPath('name', 'Ann');
+      await form.current.setValueAtPath('password', 'secret');
+    });
+    await wait(30);
+    expect(JSON.parse((await storage.getItem('form'))!).values).toMatchObject({ name: 'Ann' });
+    expect(JSON.parse((await storage.getItem('form'))!).values).not.toHaveProperty('password');
+
+    await act(async () => form.current.resetForm());
+    await wait(30);
+    expect(await storage.getItem('form')).toBeNull();
+  });
+
+  it('keeps a manual draft pending until it is restored', async () => {
+    const storage = createMemoryStorageAdapter({ form: draftOf({ name: 'Ann' }) });
+    const form = renderForm({ key: 'form', storage, restore: 'manual' });
+    await act(async () => {});
+
+    expect(form.current.draft.hasDraft).toBe(true);
+    expect(form.current.store.getState().values.name).toBe('');
+
+    await act(async () => form.current.draft.restoreDraft());
+    expect(form.current.draft.hasDraft).toBe(false);
+    expect(form.current.store.getState().values.name).toBe('Ann');
+  });
+
+  it('reports storage failures instead of rejecting', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failure = new Error('quota exceeded');
+    const storage: StorageAdapter = {
+      getItem: () => null,
+      setItem: () => Promise.reject(failure),
+      removeItem: () => Promise.reject(failure),
+    };
+    const form = renderForm({ key: 'form', storage, debounceMs: 10 });
+    await act(async () => {});
+
+    await act(async () => form.current.setValueAtPath('name', 'Ann'));
+    await wait(30);
+    await act(async () => form.current.draft.clearDraft());
+
+    expect(consoleError).toHaveBeenCalledTimes(2);
+    expect(consoleError).toHaveBeenCalledWith(failure);
+  });
+
+  it('reports a draft that cannot be read and does not autosave over it', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const setItem = vi.fn();
+    const storage: StorageAdapter = {
+      getItem: () => Promise.reject(new Error('offline')),
+      setItem,
+      removeItem: vi.fn(),
+    };
+    const form = renderForm({ key: 'form', storage, debounceMs: 10 });
+    await act(async () => {});
+
+    await act(async () => form.current.setValueAtPath('name', 'Ann'));
+    await wait(30);
+
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(setItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Draft persistence for long forms
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { reviveValue } from '../lib/coercion';
+import { expandFieldArrays, isArrayField } from '../lib/fieldArrays';
+import type { ReadableStore } from '../lib/formStore';
+import { getIn, setIn, unsetIn } from '../lib/paths';
+import { createLocalStorageAdapter } from '../lib/storage';
+import type { FieldConfig, FormDraft, PersistOptions } from '../lib/types';
+
+const defaultStorage = createLocalStorageAdapter();
+
+/**
+ * Remove fields that must not be persisted (passwords by default, files, plus `exclude`)
+ */
+function omitExcluded(values: Record<string, unknown>, fields: FieldConfig[], persist: PersistOptions) {
+  const excluded = [
+    ...(persist.exclude ?? []),
+    ...(persist.includePasswords ? [] : fields.filter((f) => f.type === 'password').map((f) => f.name)),
+    // Files cannot be serialized
+    ...fields.filter((f) => f.type === 'file').map((f) => f.name),
+  ];
+  return excluded.reduce((result, path) => (getIn(result, path) === undefined ? result : unsetIn(result, path)), values);
+}
+
+/** The part of the form state autosave reads */
+export interface DraftSource {
+  values: Record<string, unknown>;
+  pristineValues: Record<string, unknown>; // values that do not need a draft (defaults / last reset)
+}
+
+/**
+ * Draft values as the form holds them: fields that are never saved are dropped (drafts stored
+ * before they were excluded may contain them) and JSON strings are turned back into Dates
+ */
+function reviveDraftValues(values: Record<string, unknown>, fields: FieldConfig[], persist: PersistOptions) {
+  const kept = omitExcluded(values, fields, persist);
+  return expandFieldArrays(fields, kept).reduce((result, field) => {
+    const value = getIn(result, field.name);
+    return isArrayField(field) || value === undefined ? result : setIn(result, field.name, reviveValue(field, value));
+  }, kept);
+}
+
+/**
+ * Run a storage call; a failure (thrown or rejected) is logged instead of rejecting
+ */
+async function attempt<T>(action: () => T | Promise<T>): Promise<T | undefined> {
+  try {
+    return await action();
+  } catch (err) {
+    console.error(err);
+    return undefined;
+  }
+}
+
+function parseDraft(raw: string | null): FormDraft | null {
+  if (!raw) return null;
+  try {
+    const draft = JSON.parse(raw) as FormDraft;
+    return draft && typeof draft.values === 'object' ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hook that autosaves form values to storage and restores them on mount.
+ * Autosave subscribes to `store` directly, so changes do not re-render the component.
+ * Does nothing when `persist` is undefined.
+ */
+export function useFormPersistence(
+  persist: PersistOptions | undefined,
+  fields: FieldConfig[],
+  store: ReadableStore<DraftSource>,
+  applyValues: (values: Record<string, unknown>) => void
+) {
+  const key = persist?.key;
+  const debounceMs = persist?.debounceMs ?? 500;
+
+  // Latest options and fields, so inline option objects and adapters do not re-run the effects
+  const persistRef = useRef(persist);
+  const fieldsRef = useRef(fields);
+  useEffect(() => {
+    persistRef.current = persist;
+    fieldsRef.current = fields;
+  });
+  const getStorage = () => persistRef.current?.storage ?? defaultStorage;
+
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(null);
+  // Autosave stays off until the stored draft was read and handled, so it cannot be overwritten
+  const [isReady, setIsReady] = useState(!key);
+
+  const serialize = useCallback(
+    (current: Record<string, unknown>) =>
+      persistRef.current ? JSON.stringify(omitExcluded(current, fields, persistRef.current)) : '',
+    [fields]
+  );
+  /**
+   * Apply a draft's values to the form
+   */
+  const restoreDraft = useCallback(() => {
+    if (pendingDraft) applyValues(pendingDraft.values);
+    setPendingDraft(null);
+    setIsReady(true);
+  }, [pendingDraft, applyValues]);
+
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /**
+   * Remove the stored draft (and drop a pending autosave)
+   */
+  const clearDraft = useCallback(async () => {
+    if (!key) return;
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    await attempt(() => getStorage().removeItem(key));
+  }, [key]);
+
+  /**
+   * Ignore a pending draft and remove it from storage
+   */
+  const discardDraft = useCallback(async () => {
+    setPendingDraft(null);
+    setIsReady(true);
+    await clearDraft();
+  }, [clearDraft]);
+
+  // Restore on mount (or when the key changes)
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+
+    (async () => {
+      let draft: FormDraft | null;
+      let accepted: boolean;
+      const restore = persistRef.current?.restore ?? 'auto';
+      try {
+        draft = parseDraft(await getStorage().getItem(key));
+        if (cancelled) return;
+        if (draft && persistRef.current) {
+          draft = { ...draft, values: reviveDraftValues(draft.values, fieldsRef.current, persistRef.current) };
+        }
+        if (!draft || restore === 'manual') {
+          setPendingDraft(draft);
+          setIsReady(!draft);
+          return;
+        }
+        accepted = restore === 'auto' ? true : await restore(draft);
+      } catch (err) {
+        // Autosave stays off: the draft that could not be read must not be overwritten
+        console.error(err);
+        return;
+      }
+
+      if (cancelled) return;
+      if (accepted) {
+        applyValues(draft.values);
+      } else {
+        await attempt(() => getStorage().removeItem(key));
+      }
+      setIsReady(true);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, applyValues]);
+
+  // Debounced autosave, restarted on every change of the values (or of the pristine snapshot)
+  useEffect(() => {
+    if (!key || !isReady) return;
+
+    const save = () => {
+      saveTimeoutRef.current = null;
+      const { values, pristineValues } = store.getState();
+      const serialized = serialize(values);
+      // Saving the pristine values would only create a pointless draft
+      if (serialized === serialize(pristineValues)) {
+        void attempt(() => getStorage().removeItem(key));
+        return;
+      }
+      const draft: FormDraft = { values: JSON.parse(serialized), savedAt: Date.now() };
+      void attempt(() => getStorage().setItem(key, JSON.stringify(draft)));
+    };
+    const schedule = () => {
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = setTimeout(save, debounceMs);
+    };
+
+    let last = store.getState();
+    schedule();
+    const unsubscribe = store.subscribe(() => {
+      const current = store.getState();
+      if (current.values === last.values && current.pristineValues === last.pristineValues) return;
+      last = current;
+      schedule();
+    });
+
+    return () => {
+      unsubscribe();
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    };
+  }, [key, isReady, store, serialize, debounceMs]);
+
+  return useMemo(
+    () => ({
+      pendingDraft,
+      hasDraft: pendingDraft !== null,
+      restoreDraft,
+      discardDraft,
+      clearDraft,
+    }),
+    [pendingDraft, restoreDraft, discardDraft, clearDraft]
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Form state selectors - components re-render only when their selected slice changes
+ */
+
+import { useRef, useSyncExternalStore } from 'react';
+import type { ReadableStore } from '../lib/formStore';
+import type { FieldValues } from '../lib/typedFields';
+import type { FormState } from '../lib/types';
+import { useFormContext } from './useFormContext';
+
+/**
+ * Subscribe to a selected part of a store's state.
+ * Results equal to the previous one (by `isEqual`) are returned as the previous value.
+ */
+export function useStoreSelector<TState, TSelected>(
+  store: ReadableStore<TState>,
+  selector: (state: TState) => TSelected,
+  isEqual: (a: TSelected, b: TSelected) => boolean = Object.is
+): TSelected {
+  const lastRef = useRef<{ state: TState; selector: (state: TState) => TSelected; selected: TSelected } | null>(null);
+
+  const getSnapshot = () => {
+    const state = store.getState();
+    const last = lastRef.current;
+    if (last && last.state === state && last.selector === selector) return last.selected;
+
+    const selected = selector(state);
+    const stable = last && isEqual(last.selected, selected) ? last.selected : selected;
+    lastRef.current = { state, selector, selected: stable };
+    return stable;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Select from the state of the nearest FormProvider (or DynamicForm / WizardForm), e.g.
+ * `useFormState((state) => state.isDirty)`. Return objects together with `shallowEqual`.
+ */
+export function useFormState<TSelected, TValues extends FieldValues = FieldValues>(
+  selector: (state: FormState<TValues>) => TSelected,
+  isEqual?: (a: TSelected, b: TSelected) => boolean
+): TSelected {
+  const { store } = useFormContext<TValues>();
+  return useStoreSelector(store, selector, isEqual);
+}
@@ -0,0 +1,121 @@
+import { act } from 'react';
+import { describe, expect, it } from 'vitest';
+import type { FieldConfig } from '../lib/types';
+import { renderHook } from '../test/utils';
+import { useFormValidator } from './useFormValidator';
+
+/** Async rule whose runs settle when the test says so */
+function createPendingRule() {
+  const runs: { value: unknown; signal?: AbortSignal; resolve: (valid: boolean) => void }[] = [];
+  const fields: FieldConfig[] = [
+    {
+      name: 'username',
+      validators: [
+        {
+          type: 'custom',
+          message: 'Username is taken',
+          custom: (value, _formData, context) =>
+            new Promise<boolean>((resolve) => runs.push({ value, signal: context?.signal, resolve })),
+        },
+      ],
+    },
+  ];
+  return { runs, fields };
+}
+
+describe('useFormValidator async validation', () => {
+  it('aborts the older run and ignores its result when it settles last', async () => {
+    const { runs, fields } = createPendingRule();
+    const { result } = renderHook(() => useFormValidator(fields, 'onBlur'));
+
+    await act(async () => {
+      await result.current.setFieldValue('username', 'taken');
+      void result.current.setFieldTouched('username');
+    });
+    await act(async () => {
+      await result.current.setFieldValue('username', 'free');
+      void result.current.setFieldTouched('username');
+    });
+
+    expect(runs.map((run) => run.value)).toEqual(['taken', 'free']);
+    expect(runs[0].signal?.aborted).toBe(true);
+    expect(runs[1].signal?.aborted).toBe(false);
+    expect(result.current.formState.validating.username).toBe(true);
+
+    await act(async () => runs[1].resolve(true));
+    expect(result.current.formState.errors.username).toBe('');
+    expect(result.current.formState.validating.username).toBe(false);
+
+    await act(async () => runs[0].resolve(false));
+    expect(result.current.formState.errors.username).toBe('');
+    expect(result.current.formState.isValid).toBe(true);
+  });
+
+  it('shows the result of the latest run when the older one settles first', async () => {
+    const { runs, fields } = createPendingRule();
+    const { result } = renderHook(() => useFormValidator(fields, 'onBlur'));
+
+    await act(async () => {
+      await result.current.setFieldValue('username', 'free');
+      void result.current.setFieldTouched('username');
+    });
+    await act(async () => {
+      await result.current.setFieldValue('username', 'taken');
+      void result.current.setFieldTouched('username');
+    });
+
+    await act(async () => runs[0].resolve(true));
+    expect(result.current.formState.validating.username).toBe(true);
+
+    await act(async () => runs[1].resolve(false));
+    expect(result.current.formState.errors.username).toBe('Username is taken');
+    expect(result.current.formState.validating.username).toBe(false);
+  });
+
+  it('aborts runs still in flight when the form is reset', async () => {
+    const { runs, fields } = createPendingRule();
+    const { result } = renderHook(() => useFormValidator(fields, 'onBlur'));
+
+    await act(async () => {
+      await result.current.setFieldValue('username', 'taken');
+      void result.current.setFieldTouched('username');
+    });
+    act(() => result.current.resetForm());
+
+    expect(runs[0].signal?.aborted).toBe(true);
+    await act(async () => runs[0].resolve(false));
+    expect(result.current.formState.errors.username).toBeUndefined();
+  });
+});
+
+describe('useFormValidator server errors', () => {
+  const fields: FieldConfig[] = [
+    { name: 'contacts', type: 'array', fields: [{ name: 'email', validators: ['required', 'email'] }], defaultValue: [{ email: 'a@b.co' }] },
+    { name: 'username', validators: ['required'], defaultValue: 'ada' },
+  ];
+
+  it('keys server errors by normalized path and clears them on edit', async () => {
+    const { result } = renderHook(() => useFormValidator(fields, 'onBlur'));
+
+    act(() => result.current.setFieldErrors({ 'contacts[0].email': 'Already registered', username: 'Taken' }));
+    expect(result.current.formState.errors).toMatchObject({ 'contacts.0.email': 'Already registered', username: 'Taken' });
+    expect(result.current.formState.touched['contacts.0.email']).toBe(true);
+    expect(result.current.formState.isValid).toBe(false);
+
+    await act(() => result.current.setFieldValue('username', 'grace'));
+    expect(result.current.formState.errors.username).toBe('');
+    expect(result.current.formState.errors['contacts.0.email']).toBe('Already registered');
+  });
+
+  it('keeps a server error when the field is blurred without an edit', async () => {
+    const { result } = renderHook(() => useFormValidator(fields, 'onBlur'));
+
+    act(() => result.current.setFieldErrors({ username: 'Taken' }));
+    await act(() => result.current.setFieldTouched('username'));
+    expect(result.current.formState.errors.username).toBe('Taken');
+
+    await act(() => result.current.setFieldValue('username', ''));
+    await act(() => result.current.setFieldTouched('username'));
+    expect(result.current.formState.errors.username).toBe('This field is required');
+  });
+});
@@ -2,78 +2,386 @@
  * Custom React hooks for form handling
  */
 
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { coerceValue, isMultiValueField } from '../lib/coercion';
+import { SubmissionError } from '../lib/errors';
+import { getActiveFields, isFieldVisible, omitHiddenValues, resolveField } from '../lib/conditions';
 import { debounce, throttle } from '../lib/debounceThrottle';
-import type { FieldConfig, FormState, ValidationRule, ValidatorType } from '../lib/types';
-import { validateField, validateForm } from '../lib/validators';
+import { getDirtyFields, getDirtyValues } from '../lib/dirty';
+import { hasFiles, toFormData } from '../lib/files';
+import { createFormStore, type ReadableStore } from '../lib/formStore';
+import {
+  createArrayItem,
+  expandFieldArrays,
+  findFieldConfig,
+  getInitialArrayValue,
+  isArrayField,
+  moveIndex,
+  reindexArrayKeys,
+  reindexRowIds,
+  validateArrayLength,
+} from '../lib/fieldArrays';
+import type { LocaleBundles } from '../lib/messages';
+import { getIn, mergeDeep, normalizePath, setIn } from '../lib/paths';
+import type { ValidatorRegistry } from '../lib/registry';
+import type { DeepPartial, FieldValueArgs, FieldValues, TypedFields } from '../lib/typedFields';
+import type {
+  FieldConfig,
+  FormState,
+  FormSubmitHandler,
+  FormValidator,
+  PersistOptions,
+  ValidationRule,
+  ValidatorType,
+} from '../lib/types';
+import {
+  getFieldDependencies,
+  validateFieldRules,
+  validateFormDetailed,
+  validateFormLevel,
+  FORM_ERROR_KEY,
+  type FieldValidationResult,
+} from '../lib/validators';
+import { useFormMessages } from './useFormMessages';
+import { useFormPersistence } from './useFormPersistence';
+import { useStoreSelector } from './useFormState';
 
 /**
- * Hook for managing form state and validation
+ * Additional options for useFormValidator
  */
-export function useFormValidator(
-  fields: FieldConfig[],
+export interface FormValidatorOptions<TValues = Record<string, unknown>> {
+  /** Scoped registry for custom rule types (falls back to the global registry) */
+  registry?: ValidatorRegistry;
+  /** Nested initial values; takes precedence over each field's defaultValue */
+  initialValues?: DeepPartial<TValues>;
+  /** Locale for validation messages (defaults to the FormMessagesProvider locale) */
+  locale?: string;
+  /** Message bundles keyed by locale (defaults to the FormMessagesProvider bundles) */
+  messages?: LocaleBundles;
+  /** Save drafts to storage and restore them on mount */
+  persist?: PersistOptions;
+  /** Run every rule of a field and keep all failures in formState.fieldErrors */
+  collectAllErrors?: boolean;
+  /** Cross-field validators; their errors are merged into formState.errors */
+  formValidators?: FormValidator<TValues>[];
+}
+
+/**
+ * Initial value of a field before the user edits it
+ */
+function getFieldDefault(field: FieldConfig): unknown {
+  if (isArrayField(field)) return getInitialArrayValue(field);
+  return field.defaultValue ?? (isMultiValueField(field) || field.type === 'file' ? [] : '');
+}
+
+/**
+ * Whether every rule of a field should run - checklists need the state of all of them
+ */
+function shouldCollectAll(field: FieldConfig, collectAllErrors?: boolean): boolean {
+  return collectAllErrors === true || field.errorDisplay === 'all' || field.errorDisplay === 'checklist';
+}
+
+/**
+ * Form state as stored - dirty flags are derived from the pristine snapshot (the values the form
+ * started from or was rebased to by resetForm(newDefaults)) and form-level validator errors are
+ * kept apart, so field rules cannot overwrite them
+ */
+type StoredFormState = Omit<FormState, 'dirty' | 'isDirty'> & {
+  formLevelErrors: Record<string, string>;
+  pristineValues: Record<string, unknown>;
+};
+
+/**
+ * Build the pristine form state. Values are nested by field path (`address.zip`),
+ * errors and touched are keyed by the normalized path.
+ */
+function buildInitialState(fields: FieldConfig[], initialValues?: Record<string, unknown>): StoredFormState {
+  let values: Record<string, unknown> = {};
+  const touched: Record<string, boolean> = {};
+
+  fields.forEach((field) => {
+    const initial = initialValues ? getIn(initialValues, field.name) : undefined;
+    values = setIn(values, field.name, coerceValue(field, initial ?? getFieldDefault(field)));
+    touched[normalizePath(field.name)] = false;
+  });
+
+  return {
+    values,
+    errors: {},
+    fieldErrors: {},
+    formLevelErrors: {},
+    warnings: {},
+    infos: {},
+    touched,
+    validating: {},
+    rowIds: {},
+    isValidating: false,
+    isValid: true,
+    pristineValues: values,
+  };
+}
+
+/**
+ * Public form state: form-level errors merged in and dirty flags computed
+ */
+function deriveFormState(stored: StoredFormState, fields: FieldConfig[]): FormState {
+  const { formLevelErrors, pristineValues, ...state } = stored;
+  // Field rule and server errors take precedence over form-level ones
+  const errors = { ...state.errors };
+  Object.entries(formLevelErrors).forEach(([key, message]) => {
+    if (!errors[key]) errors[key] = message;
+  });
+  const dirty = getDirtyFields(fields, state.values, pristineValues);
+  return {
+    ...state,
+    errors,
+    isValid: state.isValid && Object.values(formLevelErrors).every((e) => !e),
+    dirty,
+    isDirty: Object.keys(dirty).length > 0,
+  };
+}
+
+/**
+ * Store one field's validation messages; only errors affect validity.
+ * A server error (key in `serverErrorKeys`) stays until the field is edited or a rule fails.
+ */
+function applyFieldResult(
+  state: StoredFormState,
+  key: string,
+  result: FieldValidationResult,
+  serverErrorKeys?: ReadonlySet<string>
+): StoredFormState {
+  const keepServerError = !result.error && serverErrorKeys?.has(key);
+  const errors = { ...state.errors, [key]: keepServerError ? state.errors[key] : result.error };
+  return {
+    ...state,
+    errors,
+    fieldErrors: { ...state.fieldErrors, [key]: result.failures },
+    warnings: { ...state.warnings, [key]: result.warning },
+    infos: { ...state.infos, [key]: result.info },
+    isValid: Object.values(errors).every((e) => !e),
+  };
+}
+
+/**
+ * Everything useFormController returns - the form API shared through FormProvider.
+ * Members taking TValues use method syntax, so a typed controller is also a FormController<FieldValues>.
+ */
+export interface FormController<TValues extends FieldValues = FieldValues> {
+  fields: TypedFields<TValues>;
+  store: ReadableStore<FormState<TValues>>;
+  getSubmitValues(): TValues;
+  setFieldValue(...args: FieldValueArgs<TValues>): Promise<void>;
+  /** Untyped setFieldValue, for paths only known at runtime (fields, renderers) */
+  setValueAtPath: (fieldName: string, value: unknown) => Promise<void>;
+  setFieldTouched: (fieldName: string) => Promise<void>;
+  validateFormFields: (fieldNames?: string[]) => Promise<boolean>;
+  validateSingleField: (fieldName: string, value: unknown, signal?: AbortSignal) => Promise<string>;
+  resetForm(newDefaults?: DeepPartial<TValues>): void;
+  setFieldValues(values: DeepPartial<TValues>): void;
+  setFieldErrors: (errors: Record<string, string>) => void;
+  appendItem: (fieldName: string, item?: Record<string, unknown>) => void;
+  removeItem: (fieldName: string, index: number) => void;
+  moveItem: (fieldName: string, from: number, to: number) => void;
+  getDirtyValues(): DeepPartial<TValues>;
+  draft: ReturnType<typeof useFormPersistence>;
+}
+
+/**
+ * Hook for managing form state and validation without re-rendering on changes.
+ * Components read the state through `store` (useFormState / useStoreSelector), so each one
+ * re-renders only when its own slice changes. Values are typed when `fields` come from
+ * defineFields (or `TValues` is given).
+ */
+export function useFormController<TValues extends FieldValues = FieldValues>(
+  fields: TypedFields<TValues>,
   validationMode: 'onChange' | 'onBlur' | 'onSubmit' = 'onBlur',
-  inputDebounceMs: number = 300
+  inputDebounceMs: number = 300,
+  options: FormValidatorOptions<TValues> = {}
 ) {
-  const [formState, setFormState] = useState<FormState>(() => {
-    const initialValues: Record<string, unknown> = {};
-    const touched: Record<string, boolean> = {};
+  const { registry, collectAllErrors } = options;
+  // Values are handled untyped internally; TValues only shapes the public API
+  const initialValues = options.initialValues as Record<string, unknown> | undefined;
+  const formValidators = options.formValidators as FormValidator[] | undefined;
+  const messageContext = useFormMessages();
+  const locale = options.locale ?? messageContext.locale;
+  const messages = options.messages ?? messageContext.messages;
+
+  const [store] = useState(() => createFormStore(buildInitialState(fields, initialValues)));
+  const setFormState = store.setState;
+
+  // Derived state of the latest update - selectors get the same object until the next one
+  const derivedRef = useRef<{ stored: StoredFormState; fields: FieldConfig[]; state: FormState } | null>(null);
+  const getFormState = useCallback((): FormState => {
+    const stored = store.getState();
+    const cached = derivedRef.current;
+    if (cached && cached.stored === stored && cached.fields === fields) return cached.state;
+    const state = deriveFormState(stored, fields);
+    derivedRef.current = { stored, fields, state };
+    return state;
+  }, [store, fields]);
+
+  const formStore = useMemo<ReadableStore<FormState<TValues>>>(
+    () => ({ getState: getFormState as () => FormState<TValues>, subscribe: store.subscribe }),
+    [getFormState, store]
+  );
 
-    fields.forEach((field) => {
-      initialValues[field.name] = field.defaultValue ?? '';
-      touched[field.name] = false;
-    });
+  const applyDraftValues = useCallback((values: Record<string, unknown>) => {
+    setFormState((prev) => ({ ...prev, values: mergeDeep(prev.values, values) }));
+  }, [setFormState]);
+  const draft = useFormPersistence(options.persist, fields, store, applyDraftValues);
+  const { clearDraft } = draft;
 
-    return {
-      values: initialValues,
-      errors: {},
-      touched,
-      isValidating: false,
-      isValid: true,
-    };
-  });
+  // Fields whose current error came from the server - cleared on the next edit
+  const serverErrorKeysRef = useRef<Set<string>>(new Set());
+
+  // Latest validation run per field - older runs are aborted and their results discarded
+  const validationRunsRef = useRef<Record<string, { seq: number; controller: AbortController }>>({});
+  // Latest form-level run - results of older runs are discarded
+  const formLevelSeqRef = useRef(0);
 
   /**
-   * Validate a single field
+   * Run a field's rules and collect its error, warning and info messages
    */
-  const validateSingleField = useCallback(
-    async (fieldName: string, value: unknown) => {
-      const field = fields.find((f) => f.name === fieldName);
-      if (!field || !field.validators) {
-        return '';
+  const evaluateField = useCallback(
+    async (
+      fieldName: string,
+      value: unknown,
+      signal?: AbortSignal,
+      formData: Record<string, unknown> = store.getState().values
+    ): Promise<FieldValidationResult> => {
+      const empty: FieldValidationResult = { error: '', warning: '', info: '', failures: [] };
+      // Merge latest typed value into form data snapshot to avoid stale validations on onChange
+      const currentFormData = setIn(formData, fieldName, value);
+      const config = findFieldConfig(fields, fieldName);
+      if (!config || !isFieldVisible(config, currentFormData)) {
+        return empty;
+      }
+
+      if (isArrayField(config)) {
+        return { ...empty, error: validateArrayLength(config, value, { locale, messages }) };
+      }
+
+      const field = resolveField(config, currentFormData);
+      if (!field.validators) {
+        return empty;
       }
 
       const validators = Array.isArray(field.validators)
         ? field.validators.map(v => typeof v === 'string' ? { type: v as ValidatorType } : v)
         : [{ type: field.validators[0] as ValidatorType }];
 
-      // Merge latest typed value into form data snapshot to avoid stale validations on onChange
-      const currentFormData = { ...formState.values, [fieldName]: value };
-      for (const rule of validators) {
-        const { isValid, message } = await validateField(value, rule as ValidationRule, currentFormData);
-        if (!isValid) {
-          return message;
-        }
+      return validateFieldRules(value, validators as ValidationRule[], currentFormData, {
+        registry,
+        signal,
+        locale,
+        messages,
+        label: field.label ?? field.name,
+        fieldName: normalizePath(fieldName),
+        inputType: field.type,
+        collectAllErrors: shouldCollectAll(field, collectAllErrors),
+      });
+    },
+    [fields, store, registry, locale, messages, collectAllErrors]
+  );
+
+  /**
+   * Validate a single field, resolving to its blocking error message
+   */
+  const validateSingleField = useCallback(
+    async (fieldName: string, value: unknown, signal?: AbortSignal) => {
+      const { error } = await evaluateField(fieldName, value, signal);
+      return error;
+    },
+    [evaluateField]
+  );
+
+  /**
+   * Validate a field, cancelling any in-flight run for it.
+   * Resolves to null when a newer run superseded this one or a rule threw (the error is logged).
+   */
+  const runFieldValidation = useCallback(
+    async (fieldName: string, value: unknown, formData?: Record<string, unknown>): Promise<FieldValidationResult | null> => {
+      const key = normalizePath(fieldName);
+      const previous = validationRunsRef.current[key];
+      previous?.controller.abort();
+
+      const run = { seq: (previous?.seq ?? 0) + 1, controller: new AbortController() };
+      validationRunsRef.current[key] = run;
+      const isLatest = () => validationRunsRef.current[key]?.seq === run.seq;
+
+      setFormState((prev) => ({ ...prev, validating: { ...prev.validating, [key]: true } }));
+
+      let result: FieldValidationResult;
+      try {
+        result = await evaluateField(fieldName, value, run.controller.signal, formData);
+      } catch (err) {
+        if (!isLatest() || run.controller.signal.aborted) return null;
+        setFormState((prev) => ({ ...prev, validating: { ...prev.validating, [key]: false } }));
+        // Callers run from event handlers; report instead of leaving an unhandled rejection
+        console.error(err);
+        return null;
       }
 
-      return '';
+      if (!isLatest()) return null;
+      setFormState((prev) => ({ ...prev, validating: { ...prev.validating, [key]: false } }));
+      return result;
     },
-    [fields, formState.values]
+    [evaluateField, setFormState]
   );
 
+  /**
+   * Re-run form-level validators after an edit. Errors already shown are updated or cleared;
+   * new ones only appear on touched fields (`allowNew`), and `_form` only on submit.
+   * A validator that throws keeps the shown errors (the error is logged).
+   */
+  const revalidateFormLevel = useCallback(
+    async (values: Record<string, unknown>, allowNew: boolean) => {
+      if (!formValidators?.length) return;
+      const seq = ++formLevelSeqRef.current;
+      let result: Record<string, string>;
+      try {
+        result = await validateFormLevel(values, formValidators);
+      } catch (err) {
+        // Callers run from event handlers; report instead of leaving an unhandled rejection
+        console.error(err);
+        return;
+      }
+      if (seq !== formLevelSeqRef.current) return;
+
+      setFormState((prev) => {
+        const formLevelErrors = Object.fromEntries(
+          Object.entries(result).filter(
+            ([key]) => key in prev.formLevelErrors || (allowNew && key !== FORM_ERROR_KEY && prev.touched[key])
+          )
+        );
+        return { ...prev, formLevelErrors };
+      });
+    },
+    [formValidators, setFormState]
+  );
+
+  // Abort in-flight validations on unmount
+  useEffect(() => {
+    const runs = validationRunsRef.current;
+    return () => {
+      Object.values(runs).forEach((run) => run.controller.abort());
+    };
+  }, []);
+
   // Debounced validator holder
   const debouncedValidateRef = useRef<((fieldName: string, value: unknown) => void) | null>(null);
   useEffect(() => {
     debouncedValidateRef.current = debounce(async (fname: string, fvalue: unknown) => {
-      const error = await validateSingleField(fname, fvalue);
+      const result = await runFieldValidation(fname, fvalue);
+      if (result === null) return;
       setFormState((prev) => {
-        const updatedErrors = { ...prev.errors, [fname]: error } as Record<string, string>;
-        const isValid = Object.values(updatedErrors).every((e) => !e);
+        const next = applyFieldResult(prev, fname, result, serverErrorKeysRef.current);
         const nextTouched = { ...prev.touched } as Record<string, boolean>;
-        const currentVal = prev.values[fname];
-        // Only mark as touched after debounce if there's an actual value and an error
+        const currentVal = getIn(prev.values, fname);
+        // Only mark as touched after debounce if there's an actual value and a message
         if (
-          error && (
+          (result.error || result.warning || result.info) && (
             (typeof currentVal === 'string' && currentVal.trim().length > 0) ||
             (typeof currentVal !== 'string' && currentVal !== undefined && currentVal !== null)
           )
@@ -82,152 +390,428 @@ export function useFormValidator(
         }
 
         return {
-          ...prev,
-          errors: updatedErrors,
+          ...next,
           touched: nextTouched,
-          isValid,
         };
       });
     }, inputDebounceMs);
-  }, [validateSingleField, inputDebounceMs]);
+  }, [runFieldValidation, setFormState, inputDebounceMs]);
+
+  // Form-level validators may be slow (e.g. a server lookup) - re-run them once typing pauses
+  const debouncedFormLevelRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    debouncedFormLevelRef.current = debounce(() => void revalidateFormLevel(store.getState().values, true), inputDebounceMs);
+  }, [revalidateFormLevel, store, inputDebounceMs]);
 
   /**
    * Update field value
    */
   const setFieldValue = useCallback(
     async (fieldName: string, value: unknown) => {
-      setFormState((prev) => ({
-        ...prev,
-        values: {
-          ...prev.values,
-          [fieldName]: value,
-        },
-      }));
+      const key = normalizePath(fieldName);
+      const hadServerError = serverErrorKeysRef.current.delete(key);
+      const { values, touched } = store.getState();
+      const nextValues = setIn(values, fieldName, value);
 
-      // Validate based on validation mode
-      if (validationMode === 'onChange') {
+      setFormState((prev) => {
+        if (!hadServerError) {
+          return { ...prev, values: setIn(prev.values, fieldName, value) };
+        }
+        const errors = { ...prev.errors, [key]: '' };
+        return {
+          ...prev,
+          values: setIn(prev.values, fieldName, value),
+          errors,
+          isValid: Object.values(errors).every((e) => !e),
+        };
+      });
+
+      // Validate based on validation mode; checklists always update while typing
+      if (validationMode === 'onChange' || findFieldConfig(fields, fieldName)?.errorDisplay === 'checklist') {
         // Debounced validation
-        debouncedValidateRef.current?.(fieldName, value);
+        debouncedValidateRef.current?.(key, value);
+      }
+
+      if (validationMode !== 'onSubmit') {
+        // Touched fields that depend on this one (e.g. confirmPassword on password) re-validate
+        const dependents = fields.filter(
+          (field) =>
+            touched[normalizePath(field.name)] &&
+            getFieldDependencies(field).some((dep) => key === dep || key.startsWith(`${dep}.`))
+        );
+        dependents.forEach(async (field) => {
+          const result = await runFieldValidation(field.name, getIn(nextValues, field.name), nextValues);
+          if (result === null) return;
+          setFormState((prev) => applyFieldResult(prev, normalizePath(field.name), result, serverErrorKeysRef.current));
+        });
+      }
+      if (validationMode !== 'onSubmit') {
+        debouncedFormLevelRef.current?.();
       }
     },
-    [validationMode]
+    [validationMode, fields, store, setFormState, runFieldValidation]
   );
 
   /**
    * Handle field blur
    */
   const setFieldTouched = useCallback(async (fieldName: string) => {
+    const key = normalizePath(fieldName);
     setFormState((prev) => ({
       ...prev,
       touched: {
         ...prev.touched,
-        [fieldName]: true,
+        [key]: true,
       },
     }));
 
     if (validationMode === 'onBlur') {
-      const value = formState.values[fieldName];
-      const error = await validateSingleField(fieldName, value);
+      const value = getIn(store.getState().values, fieldName);
+      const result = await runFieldValidation(fieldName, value);
+      if (result === null) return;
 
-      setFormState((prev) => {
-        const updatedErrors = { ...prev.errors, [fieldName]: error } as Record<string, string>;
-        const isValid = Object.values(updatedErrors).every((e) => !e);
-        return {
-          ...prev,
-          errors: updatedErrors,
-          isValid,
-        };
-      });
+      setFormState((prev) => applyFieldResult(prev, key, result, serverErrorKeysRef.current));
     }
-  }, [validationMode, formState.values, validateSingleField]);
+    if (validationMode !== 'onSubmit') {
+      await revalidateFormLevel(store.getState().values, true);
+    }
+  }, [validationMode, store, setFormState, runFieldValidation, revalidateFormLevel]);
 
   /**
-   * Validate entire form
+   * Validate entire form, or only the given fields (e.g. one wizard step).
+   * Scoped validation keeps errors of other fields and marks the validated fields touched.
    */
-  const validateFormFields = useCallback(async () => {
+  const validateFormFields = useCallback(async (fieldNames?: string[]) => {
+    const { values } = store.getState();
     setFormState((prev) => ({
       ...prev,
       isValidating: true,
     }));
 
-    const transformedFields = fields.map(field => ({
-      name: field.name,
-      validators: field.validators?.map(v => 
-        typeof v === 'string' ? { type: v as ValidatorType } : v
-      )
-    }));
-    const errors = await validateForm(formState.values, transformedFields);
-    const isValid = Object.keys(errors).length === 0;
+    try {
+      const scope = fieldNames?.map(normalizePath);
+      const inScope = (key: string) => !scope || scope.some((name) => key === name || key.startsWith(`${name}.`));
+      const scopedFields = scope ? fields.filter((field) => inScope(normalizePath(field.name))) : fields;
+
+      // Hidden fields are skipped; requiredWhen / disabledWhen are resolved against current values
+      const activeFields = expandFieldArrays(getActiveFields(scopedFields, values), values);
+      const transformedFields = activeFields.map(field => ({
+        name: field.name,
+        label: field.label,
+        type: field.type,
+        validators: field.validators?.map(v => 
+          typeof v === 'string' ? { type: v as ValidatorType } : v
+        ),
+        collectAllErrors: shouldCollectAll(field, collectAllErrors),
+      }));
+      const { errors, fieldErrors, warnings, infos } = await validateFormDetailed(values, transformedFields, {
+        registry,
+        locale,
+        messages,
+      });
 
-    setFormState((prev) => ({
-      ...prev,
-      errors,
-      isValid,
-      isValidating: false,
-    }));
+      // Row counts of array fields
+      activeFields.filter(isArrayField).forEach((field) => {
+        const error = validateArrayLength(field, getIn(values, field.name), { locale, messages });
+        if (error) errors[normalizePath(field.name)] = error;
+      });
+
+      // Cross-field validators; scoped validation keeps only errors of the validated fields
+      formLevelSeqRef.current++;
+      const formLevel = await validateFormLevel(values, formValidators);
+      const formLevelErrors = scope
+        ? Object.fromEntries(Object.entries(formLevel).filter(([key]) => inScope(key)))
+        : formLevel;
 
-    return isValid;
-  }, [fields, formState.values]);
+      const isValid = Object.keys(errors).length === 0 && Object.keys(formLevelErrors).length === 0;
+
+      setFormState((prev) => {
+        const formLevelTouched = Object.fromEntries(Object.keys(formLevelErrors).map((key) => [key, true]));
+        if (!scope) {
+          return {
+            ...prev,
+            errors,
+            fieldErrors,
+            formLevelErrors,
+            warnings,
+            infos,
+            touched: { ...prev.touched, ...formLevelTouched },
+            isValid: Object.keys(errors).length === 0,
+            isValidating: false,
+          };
+        }
+
+        const keepOutOfScope = <T>(record: Record<string, T>) =>
+          Object.fromEntries(Object.entries(record).filter(([key]) => !inScope(key)));
+        const mergedErrors = { ...keepOutOfScope(prev.errors), ...errors };
+        const touched = { ...prev.touched, ...formLevelTouched };
+        activeFields.forEach((field) => {
+          touched[normalizePath(field.name)] = true;
+        });
+
+        return {
+          ...prev,
+          errors: mergedErrors,
+          fieldErrors: { ...keepOutOfScope(prev.fieldErrors), ...fieldErrors },
+          formLevelErrors: { ...keepOutOfScope(prev.formLevelErrors), ...formLevelErrors },
+          warnings: { ...keepOutOfScope(prev.warnings), ...warnings },
+          infos: { ...keepOutOfScope(prev.infos), ...infos },
+          touched,
+          isValid: Object.values(mergedErrors).every((e) => !e),
+          isValidating: false,
+        };
+      });
+
+      return isValid;
+    } catch (err) {
+      // Never leave the form stuck in isValidating (submit buttons stay disabled while it is set)
+      setFormState((prev) => ({ ...prev, isValidating: false }));
+      throw err;
+    }
+  }, [fields, store, setFormState, registry, locale, messages, collectAllErrors, formValidators]);
 
   /**
-   * Reset form to initial state
+   * Set errors from outside the validators (e.g. a server response).
+   * The fields are marked touched and each error clears when its field is edited.
    */
-  const resetForm = useCallback(() => {
-    const initialValues: Record<string, unknown> = {};
-    const touched: Record<string, boolean> = {};
-
-    fields.forEach((field) => {
-      initialValues[field.name] = field.defaultValue ?? '';
-      touched[field.name] = false;
+  const setFieldErrors = useCallback((errors: Record<string, string>) => {
+    const entries = Object.entries(errors).map(([name, message]) => [normalizePath(name), message] as const);
+    entries.forEach(([key]) => serverErrorKeysRef.current.add(key));
+
+    setFormState((prev) => {
+      const nextErrors = { ...prev.errors, ...Object.fromEntries(entries) };
+      const touched = { ...prev.touched };
+      entries.forEach(([key]) => {
+        touched[key] = true;
+      });
+      return {
+        ...prev,
+        errors: nextErrors,
+        touched,
+        isValid: Object.values(nextErrors).every((e) => !e),
+      };
     });
+  }, [setFormState]);
 
-    setFormState({
-      values: initialValues,
-      errors: {},
-      touched,
-      isValidating: false,
-      isValid: true,
-    });
-  }, [fields]);
+  // Defaults resetForm() returns to - initialValues until resetForm(newDefaults) rebases them
+  const defaultsRef = useRef(initialValues);
+
+  /**
+   * Reset form to initial state. Passing `newDefaults` (e.g. the saved record)
+   * rebases the pristine snapshot so the form is clean again; later resets keep them.
+   */
+  const resetForm = useCallback((newDefaults?: Record<string, unknown>) => {
+    serverErrorKeysRef.current.clear();
+    Object.values(validationRunsRef.current).forEach((run) => run.controller.abort());
+    validationRunsRef.current = {};
+    formLevelSeqRef.current++;
+    if (newDefaults) defaultsRef.current = newDefaults;
+    const nextState = buildInitialState(fields, defaultsRef.current);
+    setFormState(nextState);
+    clearDraft();
+  }, [fields, setFormState, clearDraft]);
 
   /**
-   * Set multiple field values
+   * Nested object of only the values that changed - e.g. for PATCH requests
+   */
+  const getDirtyValuesCallback = useCallback(() => {
+    const { values, pristineValues: pristine } = store.getState();
+    return getDirtyValues(fields, values, pristine);
+  }, [fields, store]);
+
+  /**
+   * Set multiple field values from a (possibly nested) object
    */
   const setFieldValues = useCallback(
     (values: Record<string, unknown>) => {
       setFormState((prev) => ({
         ...prev,
-        values: {
-          ...prev.values,
-          ...values,
-        },
+        values: mergeDeep(prev.values, values),
       }));
     },
-    []
+    [setFormState]
+  );
+
+  /**
+   * Apply a row change to an array field, re-keying per-row errors, touched state and row ids
+   */
+  const updateArrayField = useCallback(
+    (
+      fieldName: string,
+      update: (rows: readonly unknown[]) => readonly unknown[],
+      mapIndex: (index: number) => number = (index) => index
+    ) => {
+      setFormState((prev) => {
+        const current = getIn(prev.values, fieldName);
+        const previousRows = Array.isArray(current) ? current : [];
+        const rows = update(previousRows);
+        // Updates return the same array when nothing changes (e.g. maxItems reached)
+        if (rows === previousRows) return prev;
+        const name = normalizePath(fieldName);
+        // Rows that have never moved are keyed by their index
+        const ids = (prev.rowIds[name] ?? previousRows.map((_, index) => String(index))).slice(0, previousRows.length);
+        return {
+          ...prev,
+          values: setIn(prev.values, fieldName, rows),
+          rowIds: { ...prev.rowIds, [name]: reindexRowIds(ids, rows.length, mapIndex) },
+          errors: reindexArrayKeys(prev.errors, fieldName, mapIndex),
+          fieldErrors: reindexArrayKeys(prev.fieldErrors, fieldName, mapIndex),
+          formLevelErrors: reindexArrayKeys(prev.formLevelErrors, fieldName, mapIndex),
+          touched: { ...reindexArrayKeys(prev.touched, fieldName, mapIndex), [name]: true },
+        };
+      });
+    },
+    [setFormState]
+  );
+
+  /**
+   * Append a row to an array field (defaults to an empty row from its template)
+   */
+  const appendItem = useCallback(
+    (fieldName: string, item?: Record<string, unknown>) => {
+      const field = findFieldConfig(fields, fieldName);
+      if (!field || !isArrayField(field)) return;
+      updateArrayField(fieldName, (rows) =>
+        field.maxItems !== undefined && rows.length >= field.maxItems
+          ? rows
+          : [...rows, item ?? createArrayItem(field)]
+      );
+    },
+    [fields, updateArrayField]
+  );
+
+  /**
+   * Remove the row at `index` from an array field
+   */
+  const removeItem = useCallback(
+    (fieldName: string, index: number) => {
+      updateArrayField(
+        fieldName,
+        (rows) => rows.filter((_, i) => i !== index),
+        (i) => (i === index ? -1 : i > index ? i - 1 : i)
+      );
+    },
+    [updateArrayField]
+  );
+
+  /**
+   * Move a row of an array field from one index to another
+   */
+  const moveItem = useCallback(
+    (fieldName: string, from: number, to: number) => {
+      updateArrayField(
+        fieldName,
+        (rows) => {
+          if (from === to || from < 0 || from >= rows.length || to < 0 || to >= rows.length) return rows;
+          const next = [...rows];
+          const [row] = next.splice(from, 1);
+          next.splice(to, 0, row);
+          return next;
+        },
+        moveIndex(from, to)
+      );
+    },
+    [updateArrayField]
+  );
+
+  /**
+   * Values to submit - hidden fields are dropped
+   */
+  const getSubmitValues = useCallback(
+    () => omitHiddenValues(store.getState().values, fields) as TValues,
+    [store, fields]
   );
 
   // No validation on mount (feature removed)
 
-  return {
-    formState,
+  // Same object until `fields` or a callback changes, so context consumers (useField) stay put
+  return useMemo<FormController<TValues>>(() => ({
+    fields,
+    store: formStore,
+    getSubmitValues,
+    setFieldValue,
+    setValueAtPath: setFieldValue,
+    setFieldTouched,
+    validateFormFields,
+    validateSingleField,
+    resetForm: resetForm as (newDefaults?: DeepPartial<TValues>) => void,
+    setFieldValues: setFieldValues as (values: DeepPartial<TValues>) => void,
+    setFieldErrors,
+    appendItem,
+    removeItem,
+    moveItem,
+    getDirtyValues: getDirtyValuesCallback as () => DeepPartial<TValues>,
+    draft,
+  }), [
+    fields,
+    formStore,
+    getSubmitValues,
     setFieldValue,
     setFieldTouched,
     validateFormFields,
     validateSingleField,
     resetForm,
     setFieldValues,
-  };
+    setFieldErrors,
+    appendItem,
+    removeItem,
+    moveItem,
+    getDirtyValuesCallback,
+    draft,
+  ]);
+}
+
+
+/**
+ * Hook for managing form state and validation.
+ * Re-renders on every change and returns the whole `formState`; large forms should use
+ * useFormController and let fields subscribe to their own state.
+ */
+export function useFormValidator<TValues extends FieldValues = FieldValues>(
+  fields: TypedFields<TValues>,
+  validationMode: 'onChange' | 'onBlur' | 'onSubmit' = 'onBlur',
+  inputDebounceMs: number = 300,
+  options: FormValidatorOptions<TValues> = {}
+) {
+  const form = useFormController(fields, validationMode, inputDebounceMs, options);
+  const formState = useStoreSelector(form.store, (state) => state);
+  const submitValues = useMemo(
+    () => omitHiddenValues(formState.values as Record<string, unknown>, fields) as TValues,
+    [formState.values, fields]
+  );
+  return { ...form, formState, submitValues };
 }
 
+/** Everything useFormValidator returns */
+export type FormApi<TValues extends FieldValues = FieldValues> = ReturnType<typeof useFormValidator<TValues>>;
+
+/**
+ * Additional options for useFormSubmission
+ */
+export interface FormSubmissionOptions<TValues = Record<string, unknown>> {
+  /** Receives field errors returned or thrown (SubmissionError) by onSubmit */
+  setErrors?: (errors: Record<string, string>) => void;
+  /** Called after onSubmit completes without errors (with the values before sanitizing) */
+  onSuccess?: (values: TValues) => void;
+  /** Applied to the values right before onSubmit, e.g. values => sanitizeFormValues(values, fields) */
+  sanitize?: (values: TValues) => TValues;
+}
+
+const noop = () => {};
+
 /**
- * Hook for managing form submission
+ * Hook for managing form submission. `currentValues` can be a function that reads the values
+ * at submit time (e.g. useFormController's getSubmitValues).
  */
-export function useFormSubmission(
-  onSubmit: (values: Record<string, unknown>) => void | Promise<void>,
+export function useFormSubmission<TValues = Record<string, unknown>>(
+  onSubmit: FormSubmitHandler<TValues>,
   validateForm: () => Promise<boolean>,
-  currentValues: Record<string, unknown>,
-  submitThrottleMs: number = 1000
+  currentValues: TValues | (() => TValues),
+  submitThrottleMs: number = 1000,
+  options: FormSubmissionOptions<TValues> = {}
 ) {
+  const { setErrors = noop, onSuccess, sanitize } = options;
+
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [isThrottled, setIsThrottled] = useState(false);
@@ -253,15 +837,30 @@ export function useFormSubmission(
         setIsThrottled(true);
         setTimeout(() => setIsThrottled(false), submitThrottleMs);
 
-        await onSubmit(currentValues);
+        const submitted = typeof currentValues === 'function' ? (currentValues as () => TValues)() : currentValues;
+        const values = sanitize ? sanitize(submitted) : submitted;
+        const formData = hasFiles(values) ? toFormData(values as Record<string, unknown>) : undefined;
+        const result = await onSubmit(values, { setErrors, ...(formData && { formData }) });
+        if (result?.errors && Object.keys(result.errors).length > 0) {
+          setErrors(result.errors);
+          setSubmitError('Please fix the errors in the form');
+        } else {
+          onSuccess?.(submitted);
+        }
         setIsSubmitting(false);
       } catch (error) {
+        if (error instanceof SubmissionError) {
+          setErrors(error.errors);
+          setSubmitError(error.message);
+          setIsSubmitting(false);
+          return;
+        }
         const message = error instanceof Error ? error.message : 'An error occurred during submission';
         setSubmitError(message);
         setIsSubmitting(false);
       }
     }, submitThrottleMs);
-  }, [onSubmit, validateForm, currentValues, submitThrottleMs]);
+  }, [onSubmit, validateForm, currentValues, submitThrottleMs, setErrors, onSuccess, sanitize]);
 
   const handleSubmit = useCallback((e?: React.FormEvent<HTMLFormElement>) => {
     throttledSubmitRef.current?.(e);
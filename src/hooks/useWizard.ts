@@ -0,0 +1,162 @@
+/**
+ * Multi-step wizard hooks built on useFormController / useFormValidator
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { omitHiddenValues } from '../lib/conditions';
+import type { FieldValues, TypedFields } from '../lib/typedFields';
+import type { WizardStep } from '../lib/types';
+import { useStoreSelector } from './useFormState';
+import { useFormController, type FormValidatorOptions } from './useFormValidator';
+
+/**
+ * Options for useWizard
+ */
+export interface WizardOptions<TValues = Record<string, unknown>> extends FormValidatorOptions<TValues> {
+  validationMode?: 'onChange' | 'onBlur' | 'onSubmit';
+  inputDebounceMs?: number;
+  initialStep?: number;
+}
+
+/**
+ * Hook for managing a multi-step form without re-rendering on field changes. All steps share
+ * one form state, "next" validates only the current step's fields and "back" keeps the values.
+ * Read the form state through `store`, as with useFormController.
+ */
+export function useWizardController<TValues extends FieldValues = FieldValues>(
+  steps: WizardStep[],
+  options: WizardOptions<TValues> = {}
+) {
+  const { validationMode = 'onBlur', inputDebounceMs = 300, initialStep = 0, ...validatorOptions } = options;
+
+  const fields = useMemo(() => steps.flatMap((step) => step.fields) as TypedFields<TValues>, [steps]);
+  const form = useFormController<TValues>(fields, validationMode, inputDebounceMs, validatorOptions);
+  const { validateFormFields, resetForm } = form;
+
+  const [currentStepIndex, setCurrentStepIndex] = useState(initialStep);
+  const [completedSteps, setCompletedSteps] = useState<number[]>([]);
+
+  const currentStep = steps[currentStepIndex];
+  const isFirstStep = currentStepIndex === 0;
+  const isLastStep = currentStepIndex === steps.length - 1;
+
+  /**
+   * Validate the current step's fields
+   */
+  const validateStep = useCallback(
+    async (index: number = currentStepIndex) => {
+      const step = steps[index];
+      if (!step) return true;
+      return validateFormFields(step.fields.map((field) => field.name));
+    },
+    [steps, currentStepIndex, validateFormFields]
+  );
+
+  /**
+   * Validate the current step and advance when it passes
+   */
+  const next = useCallback(async () => {
+    const isValid = await validateStep();
+    if (!isValid) return false;
+
+    setCompletedSteps((prev) => (prev.includes(currentStepIndex) ? prev : [...prev, currentStepIndex]));
+    setCurrentStepIndex((prev) => Math.min(prev + 1, steps.length - 1));
+    return true;
+  }, [validateStep, currentStepIndex, steps.length]);
+
+  /**
+   * Go to the previous step, keeping all values
+   */
+  const back = useCallback(() => {
+    setCurrentStepIndex((prev) => Math.max(prev - 1, 0));
+  }, []);
+
+  /**
+   * Check whether a step can be jumped to - every step before it must be completed
+   */
+  const canGoToStep = useCallback(
+    (index: number) =>
+      index >= 0 &&
+      index < steps.length &&
+      Array.from({ length: index }, (_, i) => i).every((i) => completedSteps.includes(i)),
+    [steps.length, completedSteps]
+  );
+
+  /**
+   * Jump to a step that is reachable
+   */
+  const goToStep = useCallback(
+    (index: number) => {
+      if (!canGoToStep(index)) return false;
+      setCurrentStepIndex(index);
+      return true;
+    },
+    [canGoToStep]
+  );
+
+  /**
+   * Reset values and return to the first step
+   */
+  const resetWizard = useCallback(() => {
+    resetForm();
+    setCompletedSteps([]);
+    setCurrentStepIndex(0);
+  }, [resetForm]);
+
+  return useMemo(
+    () => ({
+      ...form,
+      fields,
+      steps,
+      currentStep,
+      currentStepIndex,
+      completedSteps,
+      isFirstStep,
+      isLastStep,
+      validateStep,
+      next,
+      back,
+      goToStep,
+      canGoToStep,
+      resetWizard,
+    }),
+    [
+      form,
+      fields,
+      steps,
+      currentStep,
+      currentStepIndex,
+      completedSteps,
+      isFirstStep,
+      isLastStep,
+      validateStep,
+      next,
+      back,
+      goToStep,
+      canGoToStep,
+      resetWizard,
+    ]
+  );
+}
+
+/** Everything useWizardController returns */
+export type WizardController<TValues extends FieldValues = FieldValues> = ReturnType<
+  typeof useWizardController<TValues>
+>;
+
+/**
+ * Hook for managing a multi-step form that re-renders on every change and returns the whole
+ * `formState` and `submitValues`, like useFormValidator. Long wizards should use useWizardController.
+ */
+export function useWizard<TValues extends FieldValues = FieldValues>(
+  steps: WizardStep[],
+  options: WizardOptions<TValues> = {}
+) {
+  const wizard = useWizardController<TValues>(steps, options);
+  const formState = useStoreSelector(wizard.store, (state) => state);
+  const submitValues = useMemo(
+    () => omitHiddenValues(formState.values as Record<string, unknown>, wizard.fields) as TValues,
+    [formState.values, wizard.fields]
+  );
+  return { ...wizard, formState, submitValues };
+}
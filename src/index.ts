@@ -5,19 +5,87 @@
 
 // Components
 export { DynamicForm } from './components/DynamicForm';
+export { FieldArray } from './components/FieldArray';
+export { FileField } from './components/FileField';
+export { FieldList } from './components/FieldList';
+export { FieldRenderersProvider } from './components/FieldRenderersProvider';
 export { FormField } from './components/FormField';
+export { FormMessagesProvider } from './components/FormMessagesProvider';
+export { FormProvider } from './components/FormProvider';
+export { WizardForm } from './components/WizardForm';
 
 // Hooks
-export { useFormSubmission, useFormValidator } from './hooks/useFormValidator';
+export { useFormController, useFormSubmission, useFormValidator } from './hooks/useFormValidator';
+export type {
+    FormApi, FormController, FormSubmissionOptions, FormValidatorOptions
+} from './hooks/useFormValidator';
+export { useField } from './hooks/useField';
+export type { FieldHandle, FieldInputProps } from './hooks/useField';
+export { useFieldRenderers } from './hooks/useFieldRenderers';
+export type { FieldRendererProps, FieldRenderers } from './hooks/useFieldRenderers';
+export { useFilePreviews } from './hooks/useFilePreviews';
+export { useFormContext } from './hooks/useFormContext';
+export { useFormMessages } from './hooks/useFormMessages';
+export { useFormPersistence } from './hooks/useFormPersistence';
+export type { DraftSource } from './hooks/useFormPersistence';
+export { useFormState, useStoreSelector } from './hooks/useFormState';
+export type { FormMessagesContextValue } from './hooks/useFormMessages';
+export { useWizard, useWizardController } from './hooks/useWizard';
+export type { WizardController, WizardOptions } from './hooks/useWizard';
 
 // Types
 export type {
-    CustomizationOptions, CustomValidator, FieldBlurHandler, FieldChangeHandler, FieldConfig,
-    FieldError, FormConfig, FormState, FormSubmitHandler, InputType, ValidationResult, ValidationRule, ValidatorType
+    CustomizationOptions, CustomValidator, FieldBlurHandler, FieldChangeHandler, FieldCondition, FieldConfig,
+    FieldError, FieldValueCondition, FormConfig, FormDraft, FormState, FormSubmitHandler, FormValidator, FormValidatorResult, InputType, PersistOptions, SubmitHelpers, SubmitResult, ValidationResult, ValidationRule, ValidationSeverity, ValidatorContext, ValidatorType, WizardStep
 } from './lib/types';
 
+// Errors
+export { SubmissionError } from './lib/errors';
+
 // Utilities
-export { isEmpty, sanitizeValues, validateField, validateForm } from './lib/validators';
+export {
+    FORM_ERROR_KEY, getRuleMessage, isEmpty, sanitizeValues, validateField, validateFieldRules, validateForm,
+    validateFormDetailed, validateFormLevel
+} from './lib/validators';
+export type { FieldValidationResult, FormValidationReport, ValidateOptions } from './lib/validators';
+export {
+    createValidatorRegistry, globalValidatorRegistry, registerValidator, unregisterValidator
+} from './lib/registry';
+export type { ValidatorDefinition, ValidatorRegistry } from './lib/registry';
+export { createArrayItem, getItemPath } from './lib/fieldArrays';
+export { EN_MESSAGES, formatMessage, resolveMessage } from './lib/messages';
+export type { LocaleBundles, MessageBundle, MessageParams } from './lib/messages';
+export { getIn, normalizePath, setIn } from './lib/paths';
+export { createFormStore, selectFieldState, shallowEqual } from './lib/formStore';
+export type { FieldStateSlice, FormStore, ReadableStore } from './lib/formStore';
+export { createLocalStorageAdapter, createMemoryStorageAdapter, createSessionStorageAdapter } from './lib/storage';
+export type { StorageAdapter } from './lib/storage';
+export { evaluateCondition, getActiveFields, isFieldVisible, omitHiddenValues, resolveField } from './lib/conditions';
+export { fromJsonSchema, toJsonSchema } from './lib/jsonSchema';
+export type { JsonSchema, JsonSchemaUiHints } from './lib/jsonSchema';
+export {
+    coerceValue, formatInputValue, isMultiValueField, parseInputValue, parseMultiValue, toDate
+} from './lib/coercion';
+export { getInputConstraints } from './lib/constraints';
+export type { InputConstraints } from './lib/constraints';
+export { DEFAULT_SANITIZERS, SANITIZERS, sanitizeFormValues } from './lib/sanitize';
+export type { SanitizePipeline, Sanitizer, SanitizerName } from './lib/sanitize';
+export {
+    formatFileSize, getImageDimensions, hasFiles, isImageFile, matchesAccept, toFileArray, toFormData
+} from './lib/files';
+export {
+    CARD_BRANDS, detectCardBrand, FINANCIAL_VALIDATORS, isValidCardExpiry, isValidCardNumber, isValidIban,
+    isValidPostalCode, luhnCheck, POSTAL_CODE_PATTERNS, registerFinancialValidators
+} from './lib/financial';
+export type { CardBrand } from './lib/financial';
+export { applyMask, maskInput } from './lib/mask';
+export type { InputMask, MaskResult } from './lib/mask';
+export { COMMON_PASSWORDS, scorePassword } from './lib/password';
+export type { PasswordRequirement, PasswordScore, PasswordStrength } from './lib/password';
+export { isValidPhoneNumber, parsePhoneNumber, PHONE_COUNTRIES, toE164 } from './lib/phone';
+export type { ParsedPhoneNumber, PhoneCountry } from './lib/phone';
+export { defineFields } from './lib/typedFields';
+export type { DeepPartial, FieldPath, FieldValueArgs, FieldValues, InferFieldValue, InferFormValues, PathValue, TypedFields } from './lib/typedFields';
 
 // Styles (import in your app)
 // import 'formguardian-react/styles/form.module.css'
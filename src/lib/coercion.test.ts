@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { coerceValue, formatInputValue, parseInputValue, parseMultiValue, toDate } from './coercion';
+import type { FieldConfig } from './types';
+
+describe('parseInputValue', () => {
+  it('reads date inputs as local dates and keeps unparseable text', () => {
+    const date = parseInputValue({ name: 'd', type: 'date' }, '2024-01-31') as Date;
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2024, 0, 31, 0]);
+    expect(parseInputValue({ name: 'd', type: 'date' }, '2024-1-31')).toBe('2024-1-31');
+  });
+
+  it('keeps empty and non-numeric number input as typed', () => {
+    const field: FieldConfig = { name: 'n', type: 'number' };
+    expect(parseInputValue(field, '1.50')).toBe(1.5);
+    expect(parseInputValue(field, '')).toBe('');
+    expect(parseInputValue(field, '1.2.3')).toBe('1.2.3');
+  });
+
+  it('maps select values back to the option value', () => {
+    const field: FieldConfig = { name: 's', type: 'select', options: [{ value: 1, label: 'One' }] };
+    expect(parseInputValue(field, '1')).toBe(1);
+    expect(parseInputValue(field, '2')).toBe('2');
+  });
+
+  it('masks before parsing and can store the unmasked text', () => {
+    const field: FieldConfig = { name: 'p', mask: '(999) 999-9999' };
+    expect(parseInputValue(field, '5551234567')).toBe('(555) 123-4567');
+    expect(parseInputValue({ ...field, storeUnmasked: true }, '(555) 123-4567')).toBe('5551234567');
+    expect(parseInputValue({ ...field, parse: (raw) => raw.length }, '5551234567')).toBe(14);
+  });
+});
+
+describe('formatInputValue', () => {
+  it('shows dates and ISO strings in the format date inputs expect', () => {
+    expect(formatInputValue({ name: 'd', type: 'date' }, new Date(2024, 0, 5))).toBe('2024-01-05');
+    expect(formatInputValue({ name: 'd', type: 'datetime-local' }, new Date(2024, 0, 5, 9, 3))).toBe('2024-01-05T09:03');
+    expect(formatInputValue({ name: 'd', type: 'date' }, '2024-01-05')).toBe('2024-01-05');
+  });
+
+  it('masks unmasked stored values for display', () => {
+    expect(formatInputValue({ name: 'p', mask: '(999) 999-9999', storeUnmasked: true }, '5551234567')).toBe('(555) 123-4567');
+  });
+
+  it('keeps the typed text of a number only while it parses to the value', () => {
+    const field: FieldConfig = { name: 'n', type: 'number' };
+    expect(formatInputValue(field, 1, '1.0')).toBe('1.0');
+    expect(formatInputValue(field, 2, '1.0')).toBe('2');
+  });
+
+  it('round-trips through parse and format', () => {
+    const field: FieldConfig = {
+      name: 'cents',
+      parse: (raw) => Math.round(Number(raw) * 100),
+      format: (value) => (typeof value === 'number' ? (value / 100).toFixed(2) : ''),
+    };
+    expect(formatInputValue(field, parseInputValue(field, '12.5'))).toBe('12.50');
+  });
+});
+
+describe('coerceValue', () => {
+  it('coerces string defaults to the value the field holds after editing', () => {
+    expect(coerceValue({ name: 'n', type: 'number' }, '42')).toBe(42);
+    expect(coerceValue({ name: 'd', type: 'date' }, '2024-01-31')).toBeInstanceOf(Date);
+    expect(coerceValue({ name: 't' }, '42')).toBe('42');
+  });
+
+  it('wraps a single default of a checkbox group in an array', () => {
+    const field: FieldConfig = { name: 'c', type: 'checkbox', options: [{ value: 'a', label: 'A' }] };
+    expect(coerceValue(field, 'a')).toEqual(['a']);
+    expect(coerceValue(field, '')).toEqual([]);
+  });
+});
+
+describe('toDate', () => {
+  it('reads date-only strings as local dates and rejects invalid input', () => {
+    expect(toDate('2024-01-31')?.getDate()).toBe(31);
+    expect(toDate(0)?.getTime()).toBe(0);
+    expect(toDate('not a date')).toBeNull();
+    expect(toDate('')).toBeNull();
+  });
+});
+
+describe('parseMultiValue', () => {
+  it('returns the option values in option order', () => {
+    const field: FieldConfig = {
+      name: 'sizes',
+      type: 'select',
+      multiple: true,
+      options: [{ value: 1, label: 'S' }, { value: 2, label: 'M' }, { value: 3, label: 'L' }],
+    };
+    expect(parseMultiValue(field, ['3', '1'])).toEqual([1, 3]);
+    expect(parseMultiValue(field, ['4'])).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Converting between DOM input strings and model values
+ */
+
+import { applyMask } from './mask';
+import type { FieldConfig } from './types';
+
+const DATE_INPUT = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_INPUT = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * `YYYY-MM-DD` as a local date; unparseable input is returned unchanged
+ */
+function parseDate(raw: string): Date | string {
+  if (!DATE_INPUT.test(raw)) return raw;
+  const [year, month, day] = raw.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return isNaN(date.getTime()) ? raw : date;
+}
+
+/**
+ * `YYYY-MM-DDTHH:mm` as a local date-time; unparseable input is returned unchanged
+ */
+function parseDateTime(raw: string): Date | string {
+  if (!DATETIME_INPUT.test(raw)) return raw;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? raw : date;
+}
+
+/**
+ * Date for a Date, timestamp or date string (`YYYY-MM-DD` is read as a local date), or null
+ */
+export function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && DATE_INPUT.test(value)) {
+    const date = parseDate(value);
+    return date instanceof Date ? date : null;
+  }
+  if ((typeof value === 'string' && value) || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * Date for a rule bound; `'today'` is the start of today, or its end with `endOfDay`
+ */
+export function resolveDateBound(bound: unknown, endOfDay = false): Date | null {
+  if (bound === 'today') {
+    const today = new Date();
+    return endOfDay ? new Date(today.setHours(23, 59, 59, 999)) : new Date(today.setHours(0, 0, 0, 0));
+  }
+  return toDate(bound);
+}
+
+/**
+ * Whether the field holds an array of option values: checkbox groups and multiple selects
+ */
+export function isMultiValueField(field: FieldConfig): boolean {
+  return (field.type === 'checkbox' && !!field.options?.length) || (field.type === 'select' && !!field.multiple);
+}
+
+/**
+ * Array value for the chosen options of a checkbox group or multiple select (DOM strings),
+ * holding the options' own values in option order
+ */
+export function parseMultiValue(field: FieldConfig, selected: string[]): Array<string | number> {
+  return (field.options ?? []).filter((opt) => selected.includes(String(opt.value))).map((opt) => opt.value);
+}
+
+/**
+ * Model value for a DOM input value. Masked input is masked first (or reduced to its slot
+ * characters with `storeUnmasked`). `field.parse` wins; otherwise number inputs hold
+ * numbers, date inputs Dates, checkboxes booleans and select / radio their option's value.
+ * Empty and unparseable input is kept as typed.
+ */
+export function parseInputValue(field: FieldConfig, raw: string, checked?: boolean): unknown {
+  if (field.type === 'checkbox') return checked ?? Boolean(raw);
+  if (field.mask) {
+    const { value, unmasked } = applyMask(raw, field.mask);
+    raw = field.storeUnmasked ? unmasked : value;
+  }
+  if (field.parse) return field.parse(raw);
+  if (raw === '') return raw;
+
+  switch (field.type) {
+    case 'number':
+      return isNaN(Number(raw)) ? raw : Number(raw);
+    case 'date':
+      return parseDate(raw);
+    case 'datetime-local':
+      return parseDateTime(raw);
+    case 'select':
+    case 'radio':
+      // Keep the option's own value (e.g. a number) rather than the DOM string
+      return field.options?.find((opt) => String(opt.value) === raw)?.value ?? raw;
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Display string for a model value. `field.format` wins; Dates (and ISO strings, e.g. from
+ * restored drafts) are shown in the format date inputs expect. Masked fields show the
+ * masked text, whether the value was stored masked or not. Number inputs show `typed` (the
+ * input's last text, e.g. '1.0' or '0.10') as long as it still parses to the value.
+ */
+export function formatInputValue(field: FieldConfig, value: unknown, typed?: string): string {
+  if (field.mask) {
+    return applyMask(field.format ? field.format(value) : String(value ?? ''), field.mask).value;
+  }
+  if (field.format) return field.format(value);
+
+  if (field.type === 'date' && !(typeof value === 'string' && DATE_INPUT.test(value))) {
+    const date = toDate(value);
+    if (date) return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  if (field.type === 'datetime-local' && !(typeof value === 'string' && DATETIME_INPUT.test(value))) {
+    const date = toDate(value);
+    if (date) {
+      return (
+        `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+      );
+    }
+  }
+  if (field.type === 'number' && typeof value === 'number' && typed && Number(typed) === value) {
+    return typed;
+  }
+
+  return String(value ?? '');
+}
+
+/**
+ * Coerce an initial value written as a string (e.g. `defaultValue: '2024-01-31'`) to the
+ * value the field would hold after editing. Multi-value fields get a one-option array.
+ */
+export function coerceValue(field: FieldConfig, value: unknown): unknown {
+  if (typeof value !== 'string' || field.parse) return value;
+  if (isMultiValueField(field)) return parseMultiValue(field, value === '' ? [] : [value]);
+  if (field.type === 'number' || field.type === 'date' || field.type === 'datetime-local') {
+    return parseInputValue(field, value);
+  }
+  return value;
+}
+
+/**
+ * Value a field held before it went through JSON (e.g. in a restored draft): `parse` is
+ * applied to strings, date inputs get their Dates back from ISO strings, and the rest is
+ * coerced like an initial value.
+ */
+export function reviveValue(field: FieldConfig, value: unknown): unknown {
+  if (typeof value !== 'string' || value === '') return coerceValue(field, value);
+  if (field.parse) return field.parse(value);
+  if (field.type === 'date' || field.type === 'datetime-local') return toDate(value) ?? value;
+  return coerceValue(field, value);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCondition, omitHiddenValues, resolveField } from './conditions';
+import type { FieldConfig } from './types';
+
+describe('evaluateCondition', () => {
+  const values = { country: 'US', age: 17, newsletter: false, address: { zip: '' } };
+
+  it('checks the value at the condition path', () => {
+    expect(evaluateCondition({ field: 'country', equals: 'US' }, values)).toBe(true);
+    expect(evaluateCondition({ field: 'country', notEquals: 'US' }, values)).toBe(false);
+    expect(evaluateCondition({ field: 'country', in: ['CA', 'MX'] }, values)).toBe(false);
+    expect(evaluateCondition({ field: 'country', notIn: ['CA', 'MX'] }, values)).toBe(true);
+  });
+
+  it('treats a condition without an operator as truthy', () => {
+    expect(evaluateCondition({ field: 'newsletter' }, values)).toBe(false);
+    expect(evaluateCondition({ field: 'newsletter', truthy: false }, values)).toBe(true);
+    expect(evaluateCondition({ field: 'address.zip' }, values)).toBe(false);
+  });
+
+  it('requires every operator of one condition to match', () => {
+    expect(evaluateCondition({ field: 'country', equals: 'US', notIn: ['US'] }, values)).toBe(false);
+  });
+
+  it('combines conditions with all, any and not', () => {
+    const adultInUS = { all: [{ field: 'country', equals: 'US' }, (v: Record<string, unknown>) => Number(v.age) >= 18] };
+    expect(evaluateCondition(adultInUS, values)).toBe(false);
+    expect(evaluateCondition({ any: [adultInUS, { field: 'newsletter', truthy: false }] }, values)).toBe(true);
+    expect(evaluateCondition({ not: adultInUS }, values)).toBe(true);
+  });
+});
+
+describe('resolveField', () => {
+  it('adds and removes the required rule with requiredWhen', () => {
+    const field: FieldConfig = {
+      name: 'state',
+      validators: ['required', { type: 'minLength', value: 2 }],
+      requiredWhen: { field: 'country', equals: 'US' },
+    };
+    expect(resolveField(field, { country: 'US' }).validators).toEqual(field.validators);
+    expect(resolveField(field, { country: 'FR' }).validators).toEqual([{ type: 'minLength', value: 2 }]);
+    expect(resolveField({ ...field, validators: [] }, { country: 'US' }).validators).toEqual(['required']);
+  });
+});
+
+describe('omitHiddenValues', () => {
+  const whenBusiness = { field: 'kind', equals: 'business' };
+  const fields: FieldConfig[] = [
+    { name: 'kind' },
+    { name: 'company.name', visibleWhen: whenBusiness },
+    { name: 'company.vat', visibleWhen: whenBusiness },
+    { name: 'billing.street' },
+    { name: 'billing.company.reference', visibleWhen: whenBusiness },
+  ];
+  const values = {
+    kind: 'person',
+    company: { name: 'Acme', vat: 'GB123' },
+    billing: { street: 'Main St', company: { reference: 'PO-1' } },
+  };
+
+  it('drops parent objects left empty by hidden fields', () => {
+    expect(omitHiddenValues(values, fields)).toEqual({ kind: 'person', billing: { street: 'Main St' } });
+  });
+
+  it('keeps parents that still hold visible values', () => {
+    const partly: FieldConfig[] = [...fields, { name: 'company.country' }];
+    expect(omitHiddenValues({ ...values, company: { ...values.company, country: 'GB' } }, partly)).toEqual({
+      kind: 'person',
+      company: { country: 'GB' },
+      billing: { street: 'Main St' },
+    });
+  });
+
+  it('keeps every value when all fields are visible', () => {
+    expect(omitHiddenValues({ ...values, kind: 'business' }, fields)).toEqual({ ...values, kind: 'business' });
+  });
+});
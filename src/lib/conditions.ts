@@ -0,0 +1,119 @@
+/**
+ * Conditional field helpers (visibleWhen / requiredWhen / disabledWhen)
+ */
+
+import { getIn, toPath, unsetIn } from './paths';
+import type { FieldCondition, FieldConfig, FieldValueCondition, ValidationRule } from './types';
+
+/**
+ * Evaluate a field condition against the current form values
+ */
+export function evaluateCondition(condition: FieldCondition, values: Record<string, unknown>): boolean {
+  if (typeof condition === 'function') {
+    return condition(values);
+  }
+  if ('all' in condition) {
+    return condition.all.every((c) => evaluateCondition(c, values));
+  }
+  if ('any' in condition) {
+    return condition.any.some((c) => evaluateCondition(c, values));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, values);
+  }
+  return matchesValueCondition(condition, getIn(values, condition.field));
+}
+
+function matchesValueCondition(condition: FieldValueCondition, value: unknown): boolean {
+  const hasOperator =
+    'equals' in condition ||
+    'notEquals' in condition ||
+    condition.in !== undefined ||
+    condition.notIn !== undefined ||
+    condition.truthy !== undefined;
+
+  if (!hasOperator) return Boolean(value);
+  if ('equals' in condition && value !== condition.equals) return false;
+  if ('notEquals' in condition && value === condition.notEquals) return false;
+  if (condition.in && !condition.in.includes(value)) return false;
+  if (condition.notIn && condition.notIn.includes(value)) return false;
+  if (condition.truthy !== undefined && Boolean(value) !== condition.truthy) return false;
+  return true;
+}
+
+/**
+ * Check whether a field should be shown for the given values
+ */
+export function isFieldVisible(field: FieldConfig, values: Record<string, unknown>): boolean {
+  return field.visibleWhen ? evaluateCondition(field.visibleWhen, values) : true;
+}
+
+const isRequiredRule = (rule: ValidationRule | string) =>
+  (typeof rule === 'string' ? rule : rule.type) === 'required';
+
+/**
+ * Apply requiredWhen / disabledWhen to a field for the given values
+ */
+export function resolveField(field: FieldConfig, values: Record<string, unknown>): FieldConfig {
+  if (!field.requiredWhen && !field.disabledWhen) {
+    return field;
+  }
+
+  const resolved: FieldConfig = { ...field };
+
+  if (field.disabledWhen) {
+    resolved.disabled = Boolean(field.disabled) || evaluateCondition(field.disabledWhen, values);
+  }
+
+  if (field.requiredWhen) {
+    const required = evaluateCondition(field.requiredWhen, values);
+    const validators = field.validators ?? [];
+    const hasRequiredRule = validators.some(isRequiredRule);
+
+    resolved.required = required;
+    if (required && !hasRequiredRule) {
+      resolved.validators = ['required', ...validators];
+    } else if (!required && hasRequiredRule) {
+      resolved.validators = validators.filter((rule) => !isRequiredRule(rule));
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Visible fields with their conditions resolved
+ */
+export function getActiveFields(fields: FieldConfig[], values: Record<string, unknown>): FieldConfig[] {
+  return fields.filter((field) => isFieldVisible(field, values)).map((field) => resolveField(field, values));
+}
+
+/**
+ * Remove the value at a path, then any parent objects left empty by it
+ * (hiding `address.street` and `address.city` drops `address` too)
+ */
+function unsetAndPrune(values: Record<string, unknown>, path: string): Record<string, unknown> {
+  let result = unsetIn(values, path);
+  const segments = toPath(path);
+  for (let depth = segments.length - 1; depth > 0; depth--) {
+    const parentPath = segments.slice(0, depth).join('.');
+    const parent = getIn(result, parentPath);
+    if (parent === null || typeof parent !== 'object' || Array.isArray(parent) || Object.keys(parent).length > 0) {
+      break;
+    }
+    result = unsetIn(result, parentPath);
+  }
+  return result;
+}
+
+/**
+ * Drop values that belong to hidden fields
+ */
+export function omitHiddenValues(
+  values: Record<string, unknown>,
+  fields: FieldConfig[]
+): Record<string, unknown> {
+  return fields
+    .filter((field) => !isFieldVisible(field, values))
+    .reduce((result, field) => unsetAndPrune(result, field.name), values);
+}
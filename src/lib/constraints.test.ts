@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getInputConstraints } from './constraints';
+
+describe('getInputConstraints', () => {
+  it('emits min, max and step for number inputs', () => {
+    expect(
+      getInputConstraints({ name: 'qty', type: 'number', validators: [{ type: 'min', value: 1 }, 'integer'] })
+    ).toEqual({ min: 1, step: 1 });
+  });
+
+  it('emits step for date and datetime-local inputs', () => {
+    const date = getInputConstraints({
+      name: 'start',
+      type: 'date',
+      validators: [{ type: 'minDate', value: '2024-01-01' }, { type: 'step', value: 7 }],
+    });
+    expect(date).toEqual({ min: '2024-01-01', step: 7 });
+
+    const time = getInputConstraints({ name: 'at', type: 'datetime-local', validators: [{ type: 'step', value: 900 }] });
+    expect(time).toEqual({ step: 900 });
+  });
+});
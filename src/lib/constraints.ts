@@ -0,0 +1,64 @@
+/**
+ * Native input constraints (min / max / step) derived from a field's rules
+ */
+
+import { formatInputValue, resolveDateBound } from './coercion';
+import type { FieldConfig, ValidationRule } from './types';
+
+/** Attributes for number, date, datetime-local and file inputs */
+export interface InputConstraints {
+  min?: string | number;
+  max?: string | number;
+  step?: string | number;
+  accept?: string;
+}
+
+/**
+ * min / max / step (and accept) attributes matching the field's rules, so browsers offer
+ * the same limits (spinners, date pickers, file dialogs) the validators enforce
+ */
+export function getInputConstraints(field: FieldConfig): InputConstraints {
+  const rules: ValidationRule[] = (field.validators ?? []).map((rule) =>
+    typeof rule === 'string' ? { type: rule } : rule
+  );
+  const valueOf = (type: string) => rules.find((rule) => rule.type === type)?.value;
+
+  if (field.type === 'number') {
+    const min = valueOf('min');
+    const max = valueOf('max');
+    const step = valueOf('step') ?? (rules.some((rule) => rule.type === 'integer') ? 1 : undefined);
+    return {
+      ...(min !== undefined && { min: Number(min) }),
+      ...(max !== undefined && { max: Number(max) }),
+      ...(step !== undefined && { step: Number(step) }),
+    };
+  }
+
+  if (field.type === 'date' || field.type === 'datetime-local') {
+    const min = resolveDateBound(valueOf('minDate'))?.getTime();
+    let max = resolveDateBound(valueOf('maxDate'), true)?.getTime();
+
+    // Old enough means born no later than `minAge` years ago
+    const minAge = valueOf('minAge');
+    if (minAge !== undefined) {
+      const latest = new Date();
+      latest.setFullYear(latest.getFullYear() - Number(minAge));
+      max = max === undefined ? latest.getTime() : Math.min(max, latest.getTime());
+    }
+
+    // Days for date inputs, seconds for datetime-local - the units the step validator counts
+    const step = valueOf('step');
+    return {
+      ...(min !== undefined && { min: formatInputValue({ ...field, format: undefined }, new Date(min)) }),
+      ...(max !== undefined && { max: formatInputValue({ ...field, format: undefined }, new Date(max)) }),
+      ...(step !== undefined && { step: Number(step) }),
+    };
+  }
+
+  if (field.type === 'file') {
+    const accept = valueOf('accept');
+    return typeof accept === 'string' ? { accept } : {};
+  }
+
+  return {};
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { getDirtyFields, getDirtyValues, isEqual } from './dirty';
+import type { FieldConfig } from './types';
+
+describe('isEqual', () => {
+  it('compares dates, arrays and plain objects by value', () => {
+    expect(isEqual(new Date(0), new Date(0))).toBe(true);
+    expect(isEqual([1, { a: [2] }], [1, { a: [2] }])).toBe(true);
+    expect(isEqual([1, 2], [2, 1])).toBe(false);
+    expect(isEqual(NaN, NaN)).toBe(true);
+  });
+
+  it('tells apart objects with different keys', () => {
+    expect(isEqual({ a: undefined }, { b: undefined })).toBe(false);
+    expect(isEqual({ a: 1 }, { a: 1, b: 1 })).toBe(false);
+  });
+
+  it('compares class instances by identity', () => {
+    const file = new File(['x'], 'a.txt');
+    expect(isEqual(file, file)).toBe(true);
+    expect(isEqual(file, new File(['x'], 'a.txt'))).toBe(false);
+    expect(isEqual([], {})).toBe(false);
+  });
+});
+
+describe('dirty tracking', () => {
+  const fields: FieldConfig[] = [
+    { name: 'name' },
+    { name: 'address.zip' },
+    { name: 'birthday', type: 'date' },
+    { name: 'phones', type: 'array', fields: [{ name: 'number' }] },
+  ];
+  const pristine = {
+    name: 'Ada',
+    address: { zip: '1' },
+    birthday: new Date(2000, 0, 1),
+    phones: [{ number: '1' }, { number: '2' }],
+  };
+
+  it('flags changed fields and array rows by path', () => {
+    const values = { ...pristine, address: { zip: '2' }, phones: [{ number: '1' }, { number: '3' }] };
+    expect(getDirtyFields(fields, values, pristine)).toEqual({
+      'address.zip': true,
+      phones: true,
+      'phones.1.number': true,
+    });
+  });
+
+  it('ignores new Date objects for the same day', () => {
+    expect(getDirtyFields(fields, { ...pristine, birthday: new Date(2000, 0, 1) }, pristine)).toEqual({});
+  });
+
+  it('returns only changed values, with array fields whole', () => {
+    const values = { ...pristine, address: { zip: '2' }, phones: [{ number: '2' }, { number: '1' }] };
+    expect(getDirtyValues(fields, values, pristine)).toEqual({
+      address: { zip: '2' },
+      phones: [{ number: '2' }, { number: '1' }],
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Dirty tracking - comparing form values against their pristine snapshot
+ */
+
+import { expandFieldArrays } from './fieldArrays';
+import { getIn, normalizePath, setIn } from './paths';
+import type { FieldConfig } from './types';
+
+/**
+ * Structural equality for form values (plain objects, arrays, dates and primitives)
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => isEqual(item, b[index]));
+  }
+
+  // Files and other class instances are only equal to themselves
+  if (Object.getPrototypeOf(a) !== Object.prototype || Object.getPrototypeOf(b) !== Object.prototype) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every(
+    (key) => Object.hasOwn(b, key) && isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Per-field dirty flags keyed by normalized path (array rows included)
+ */
+export function getDirtyFields(
+  fields: FieldConfig[],
+  values: Record<string, unknown>,
+  pristine: Record<string, unknown>
+): Record<string, boolean> {
+  const dirty: Record<string, boolean> = {};
+  expandFieldArrays(fields, values).forEach((field) => {
+    if (!isEqual(getIn(values, field.name), getIn(pristine, field.name))) {
+      dirty[normalizePath(field.name)] = true;
+    }
+  });
+  return dirty;
+}
+
+/**
+ * Nested object with only the fields that differ from the pristine snapshot.
+ * Array fields are included whole when any row changed.
+ */
+export function getDirtyValues(
+  fields: FieldConfig[],
+  values: Record<string, unknown>,
+  pristine: Record<string, unknown>
+): Record<string, unknown> {
+  return fields.reduce<Record<string, unknown>>((result, field) => {
+    const value = getIn(values, field.name);
+    return isEqual(value, getIn(pristine, field.name)) ? result : setIn(result, field.name, value);
+  }, {});
+}
@@ -0,0 +1,20 @@
+/**
+ * Error classes
+ */
+
+/**
+ * Thrown from `onSubmit` to map server-side validation errors back onto fields
+ *
+ * @example
+ * if (response.status === 422) throw new SubmissionError(await response.json());
+ */
+export class SubmissionError extends Error {
+  /** Messages keyed by field path */
+  errors: Record<string, string>;
+
+  constructor(errors: Record<string, string>, message: string = 'Please fix the errors in the form') {
+    super(message);
+    this.name = 'SubmissionError';
+    this.errors = errors;
+  }
+}
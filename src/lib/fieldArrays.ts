@@ -0,0 +1,167 @@
+/**
+ * Helpers for repeatable field arrays (`type: 'array'`)
+ */
+
+import { formatMessage, resolveMessage, type LocaleBundles } from './messages';
+import { getIn, normalizePath, setIn } from './paths';
+import type { FieldConfig } from './types';
+
+/**
+ * Check whether a field is a repeatable array field
+ */
+export function isArrayField(field: FieldConfig): boolean {
+  return field.type === 'array';
+}
+
+/**
+ * Build an empty row from an array field's template
+ */
+export function createArrayItem(field: FieldConfig): Record<string, unknown> {
+  return (field.fields ?? []).reduce<Record<string, unknown>>(
+    (item, sub) => setIn(item, sub.name, sub.defaultValue ?? ''),
+    {}
+  );
+}
+
+/**
+ * Initial rows for an array field - its defaultValue or `minItems` empty rows
+ */
+export function getInitialArrayValue(field: FieldConfig): Record<string, unknown>[] {
+  if (Array.isArray(field.defaultValue)) {
+    return field.defaultValue as Record<string, unknown>[];
+  }
+  return Array.from({ length: field.minItems ?? 0 }, () => createArrayItem(field));
+}
+
+/**
+ * Path of a sub-field inside an array row
+ */
+export function getItemPath(arrayName: string, index: number, fieldName: string): string {
+  return normalizePath(`${arrayName}.${index}.${fieldName}`);
+}
+
+/**
+ * Find the config for a field path, resolving array row paths to their template field
+ * (`phones.2.number` -> the `number` field of `phones`, renamed to the full path)
+ */
+export function findFieldConfig(fields: FieldConfig[], path: string): FieldConfig | undefined {
+  const target = normalizePath(path);
+  const direct = fields.find((f) => normalizePath(f.name) === target);
+  if (direct) return direct;
+
+  for (const field of fields) {
+    const name = normalizePath(field.name);
+    if (!isArrayField(field) || !target.startsWith(`${name}.`)) continue;
+    const [index, ...rest] = target.slice(name.length + 1).split('.');
+    if (!/^\d+$/.test(index)) continue;
+    const sub = findFieldConfig(field.fields ?? [], rest.join('.'));
+    if (sub) return { ...sub, name: target };
+  }
+
+  return undefined;
+}
+
+/**
+ * Replace array fields with one field per row sub-field, named by full path
+ */
+export function expandFieldArrays(fields: FieldConfig[], values: Record<string, unknown>): FieldConfig[] {
+  return fields.flatMap((field) => {
+    if (!isArrayField(field)) return [field];
+
+    const rows = getIn(values, field.name);
+    const count = Array.isArray(rows) ? rows.length : 0;
+    const rowFields = Array.from({ length: count }, (_, index) =>
+      (field.fields ?? []).map((sub) => ({ ...sub, name: getItemPath(field.name, index, sub.name) }))
+    ).flat();
+
+    return [field, ...rowFields];
+  });
+}
+
+/**
+ * Validate the row count of an array field
+ */
+export function validateArrayLength(
+  field: FieldConfig,
+  value: unknown,
+  options: { locale?: string; messages?: LocaleBundles } = {}
+): string {
+  const count = Array.isArray(value) ? value.length : 0;
+  const format = (key: 'minItems' | 'maxItems', limit: number) =>
+    formatMessage(
+      resolveMessage(key, options.locale, options.messages) ?? '',
+      { label: field.label ?? field.name, value: limit, length: count },
+      options.locale
+    );
+
+  if (field.minItems !== undefined && count < field.minItems) {
+    return format('minItems', field.minItems);
+  }
+  if (field.maxItems !== undefined && count > field.maxItems) {
+    return format('maxItems', field.maxItems);
+  }
+  return '';
+}
+
+/**
+ * Re-key per-row entries (errors, touched) after rows are removed or reordered.
+ * `mapIndex` returns the new index of a row, or -1 when the row is gone.
+ */
+export function reindexArrayKeys<T>(
+  record: Record<string, T>,
+  arrayName: string,
+  mapIndex: (index: number) => number
+): Record<string, T> {
+  const name = normalizePath(arrayName);
+  const prefix = `${name}.`;
+  const next: Record<string, T> = {};
+
+  Object.entries(record).forEach(([key, value]) => {
+    if (!key.startsWith(prefix)) {
+      next[key] = value;
+      return;
+    }
+    const [index, ...rest] = key.slice(prefix.length).split('.');
+    if (!/^\d+$/.test(index)) {
+      next[key] = value;
+      return;
+    }
+    const newIndex = mapIndex(Number(index));
+    if (newIndex >= 0) {
+      next[[name, newIndex, ...rest].join('.')] = value;
+    }
+  });
+
+  return next;
+}
+
+let nextRowId = 0;
+
+/**
+ * Carry row ids over a row change so each row keeps its id (for React keys).
+ * `mapIndex` is the same mapping used by reindexArrayKeys; rows without an id get a new one.
+ */
+export function reindexRowIds(
+  ids: readonly string[],
+  count: number,
+  mapIndex: (index: number) => number
+): string[] {
+  const next: (string | undefined)[] = Array.from({ length: count }, () => undefined);
+  ids.forEach((id, index) => {
+    const newIndex = mapIndex(index);
+    if (newIndex >= 0 && newIndex < count) next[newIndex] = id;
+  });
+  return next.map((id) => id ?? `row-${++nextRowId}`);
+}
+
+/**
+ * Index mapping for moving a row from `from` to `to`
+ */
+export function moveIndex(from: number, to: number): (index: number) => number {
+  return (index) => {
+    if (index === from) return to;
+    if (from < to && index > from && index <= to) return index - 1;
+    if (from > to && index >= to && index < from) return index + 1;
+    return index;
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { formatFileSize, hasFiles, matchesAccept, toFileArray, toFormData } from './files';
+
+const file = (name: string, type = '') => new File(['x'], name, { type });
+
+describe('matchesAccept', () => {
+  it('matches extensions, MIME types and wildcards, ignoring case', () => {
+    expect(matchesAccept(file('CV.PDF'), '.pdf')).toBe(true);
+    expect(matchesAccept(file('cv', 'application/pdf'), 'application/pdf')).toBe(true);
+    expect(matchesAccept(file('photo.png', 'image/png'), 'image/*, .pdf')).toBe(true);
+    expect(matchesAccept(file('notes.txt', 'text/plain'), 'image/*, .pdf')).toBe(false);
+  });
+
+  it('does not treat a type prefix as a wildcard', () => {
+    expect(matchesAccept(file('x', 'imagery/png'), 'image/*')).toBe(false);
+    expect(matchesAccept(file('x.pdf.txt', 'text/plain'), '.pdf')).toBe(false);
+  });
+});
+
+describe('file values', () => {
+  it('reads files from single files and arrays', () => {
+    const a = file('a.txt');
+    expect(toFileArray(a)).toEqual([a]);
+    expect(toFileArray([a, 'b'])).toEqual([a]);
+    expect(toFileArray('a.txt')).toEqual([]);
+  });
+
+  it('finds files nested in values', () => {
+    expect(hasFiles({ docs: [{ file: file('a.txt') }] })).toBe(true);
+    expect(hasFiles({ when: new Date(), tags: ['a'] })).toBe(false);
+  });
+
+  it('formats sizes in binary units', () => {
+    expect(formatFileSize(512, 'en')).toBe('512 B');
+    expect(formatFileSize(1536, 'en')).toBe('1.5 KB');
+    expect(formatFileSize(5 * 1024 * 1024, 'en')).toBe('5 MB');
+  });
+});
+
+describe('toFormData', () => {
+  it('flattens nested values, repeats array keys and indexes rows', () => {
+    const a = file('a.txt');
+    const b = file('b.txt');
+    const data = toFormData({
+      name: 'Ada',
+      address: { zip: '1' },
+      attachments: [a, b],
+      tags: ['x', 'y'],
+      phones: [{ number: '555' }],
+      when: new Date(Date.UTC(2024, 0, 1)),
+      empty: null,
+    });
+
+    expect([...data.keys()]).toEqual([
+      'name',
+      'address.zip',
+      'attachments',
+      'attachments',
+      'tags',
+      'tags',
+      'phones.0.number',
+      'when',
+    ]);
+    expect(data.getAll('attachments').map((entry) => (entry as File).name)).toEqual(['a.txt', 'b.txt']);
+    expect(data.get('when')).toBe('2024-01-01T00:00:00.000Z');
+  });
+});
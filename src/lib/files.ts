@@ -0,0 +1,120 @@
+/**
+ * File field helpers - type / size checks, image dimensions and FormData conversion
+ */
+
+/** Files in a field value (File[], a FileList or a single File); anything else is none */
+export function toFileArray(value: unknown): File[] {
+  if (typeof File === 'undefined') return [];
+  if (value instanceof File) return [value];
+  if (Array.isArray(value)) return value.filter((item): item is File => item instanceof File);
+  if (typeof FileList !== 'undefined' && value instanceof FileList) return Array.from(value);
+  return [];
+}
+
+/**
+ * Whether a file matches an `accept` list like the input attribute's:
+ * extensions (`.pdf`), MIME types (`application/pdf`) and wildcards (`image/*`)
+ */
+export function matchesAccept(file: File, accept: string): boolean {
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+  return accept
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry.startsWith('.')) return name.endsWith(entry);
+      if (entry.endsWith('/*')) return type.startsWith(entry.slice(0, -1));
+      return type === entry;
+    });
+}
+
+/**
+ * Human-readable size, e.g. `1.5 MB`
+ */
+export function formatFileSize(bytes: number, locale?: string): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(size)} ${units[unit]}`;
+}
+
+/** Whether the file is an image (by MIME type) */
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+/**
+ * Pixel size of an image file; null for other files or where images cannot be decoded
+ */
+export async function getImageDimensions(file: File): Promise<{ width: number; height: number } | null> {
+  if (!isImageFile(file)) return null;
+
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file);
+      const size = { width: bitmap.width, height: bitmap.height };
+      bitmap.close();
+      return size;
+    } catch {
+      // Formats such as SVG cannot be decoded to a bitmap; try an <img>
+    }
+  }
+
+  if (typeof Image === 'undefined' || typeof URL.createObjectURL !== 'function') return null;
+  const url = URL.createObjectURL(file);
+  try {
+    return await new Promise((resolve) => {
+      const image = new Image();
+      image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      image.onerror = () => resolve(null);
+      image.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Whether a value (nested objects and arrays included) contains a File
+ */
+export function hasFiles(value: unknown): boolean {
+  if (typeof File !== 'undefined' && value instanceof File) return true;
+  if (Array.isArray(value)) return value.some(hasFiles);
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.values(value).some(hasFiles);
+  }
+  return false;
+}
+
+/**
+ * FormData for the values. Nested keys become dotted paths (`address.zip`), arrays of files
+ * or plain values repeat their key, array rows use their index (`phones.0.number`), Dates are
+ * sent as ISO strings and empty values (`undefined`, `null`) are left out.
+ */
+export function toFormData(values: Record<string, unknown>): FormData {
+  const formData = new FormData();
+
+  const append = (key: string, value: unknown): void => {
+    if (value === undefined || value === null) return;
+    if (value instanceof Blob) {
+      formData.append(key, value);
+    } else if (value instanceof Date) {
+      formData.append(key, value.toISOString());
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        const isRow = item !== null && typeof item === 'object' && !(item instanceof Blob) && !(item instanceof Date);
+        append(isRow ? `${key}.${index}` : key, item);
+      });
+    } else if (typeof value === 'object') {
+      Object.entries(value).forEach(([child, childValue]) => append(key ? `${key}.${child}` : child, childValue));
+    } else {
+      formData.append(key, String(value));
+    }
+  };
+
+  append('', values);
+  return formData;
+}
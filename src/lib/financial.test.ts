@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectCardBrand,
+  isValidCardExpiry,
+  isValidCardNumber,
+  isValidIban,
+  isValidPostalCode,
+  luhnCheck,
+  registerFinancialValidators,
+} from './financial';
+import { createValidatorRegistry } from './registry';
+import { validateFieldRules } from './validators';
+
+describe('luhnCheck', () => {
+  it('doubles every second digit from the right', () => {
+    expect(luhnCheck('79927398713')).toBe(true);
+    expect(luhnCheck('79927398710')).toBe(false);
+    expect(luhnCheck('0')).toBe(true);
+  });
+
+  it('rejects anything but digits', () => {
+    expect(luhnCheck('4111 1111 1111 1111')).toBe(false);
+    expect(luhnCheck('')).toBe(false);
+  });
+});
+
+describe('card numbers', () => {
+  it('detects brands from the leading digits', () => {
+    expect(detectCardBrand('4111')?.id).toBe('visa');
+    expect(detectCardBrand('3782')?.id).toBe('amex');
+    expect(detectCardBrand('3530')?.id).toBe('jcb');
+    expect(detectCardBrand('2221')?.id).toBe('mastercard');
+    expect(detectCardBrand('5018')?.id).toBe('maestro');
+    expect(detectCardBrand('1234')).toBeNull();
+  });
+
+  it('checks the checksum and the length the brand issues', () => {
+    expect(isValidCardNumber('4111 1111 1111 1111')).toBe(true);
+    expect(isValidCardNumber('3782-822463-10005')).toBe(true);
+    expect(isValidCardNumber('4111 1111 1111 1112')).toBe(false);
+    // Passes Luhn, but Amex numbers have 15 digits
+    expect(luhnCheck('3400000000000000')).toBe(true);
+    expect(isValidCardNumber('3400 0000 0000 0000')).toBe(false);
+  });
+
+  it('limits the accepted brands', () => {
+    expect(isValidCardNumber('5555555555554444', ['visa', 'mastercard'])).toBe(true);
+    expect(isValidCardNumber('378282246310005', ['visa', 'mastercard'])).toBe(false);
+  });
+});
+
+describe('isValidCardExpiry', () => {
+  const now = new Date(2026, 4, 15);
+
+  it('is valid through the end of the expiry month', () => {
+    expect(isValidCardExpiry('05/26', now)).toBe(true);
+    expect(isValidCardExpiry('04/26', now)).toBe(false);
+    expect(isValidCardExpiry('0527', now)).toBe(true);
+    expect(isValidCardExpiry('12/2030', now)).toBe(true);
+  });
+
+  it('rejects invalid months and dates too far ahead', () => {
+    expect(isValidCardExpiry('13/27', now)).toBe(false);
+    expect(isValidCardExpiry('00/27', now)).toBe(false);
+    expect(isValidCardExpiry('01/2050', now)).toBe(false);
+  });
+});
+
+describe('isValidIban', () => {
+  it('accepts valid IBANs with or without spaces', () => {
+    expect(isValidIban('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(isValidIban('de89370400440532013000')).toBe(true);
+    expect(isValidIban('NO9386011117947')).toBe(true);
+  });
+
+  it('rejects a wrong checksum or length for the country', () => {
+    expect(isValidIban('GB82 WEST 1234 5698 7654 33')).toBe(false);
+    expect(isValidIban('DE89 3704 0044 0532 0130 0')).toBe(false);
+    expect(isValidIban('1234 5678 9012 3456')).toBe(false);
+  });
+});
+
+describe('isValidPostalCode', () => {
+  it('uses the country format and accepts any code for unknown countries', () => {
+    expect(isValidPostalCode('SW1A 1AA', 'gb')).toBe(true);
+    expect(isValidPostalCode('12345-6789')).toBe(true);
+    expect(isValidPostalCode('1234', 'DE')).toBe(false);
+    expect(isValidPostalCode('AB-99', 'KE')).toBe(true);
+    expect(isValidPostalCode('  ', 'KE')).toBe(false);
+  });
+});
+
+describe('financial rule types', () => {
+  const registry = registerFinancialValidators(createValidatorRegistry(null));
+
+  it('requires the CVC length of the card brand in matchField', async () => {
+    const rules = [{ type: 'cvc', matchField: 'card' }];
+    const amex = { card: '3782 822463 10005' };
+    expect((await validateFieldRules('1234', rules, amex, { registry })).error).toBe('');
+    expect((await validateFieldRules('123', rules, amex, { registry })).error).toBe('Please enter a valid security code');
+    expect((await validateFieldRules('123', rules, { card: '' }, { registry })).error).toBe('');
+  });
+});
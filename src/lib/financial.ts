@@ -0,0 +1,208 @@
+/**
+ * Payment and identity validators (card numbers, expiry, CVC, IBAN, postal codes).
+ * Opt-in: call `registerFinancialValidators()` to make the rule types available.
+ */
+
+import { getIn } from './paths';
+import { globalValidatorRegistry, type ValidatorDefinition, type ValidatorRegistry } from './registry';
+import type { ValidationRule } from './types';
+
+/** A card network, detected from the leading digits of a card number */
+export interface CardBrand {
+  id: string;
+  label: string;
+  pattern: RegExp;
+  lengths: number[];
+  cvcLength: number;
+}
+
+/**
+ * Supported card networks, checked in order
+ */
+export const CARD_BRANDS: CardBrand[] = [
+  { id: 'amex', label: 'American Express', pattern: /^3[47]/, lengths: [15], cvcLength: 4 },
+  { id: 'diners', label: 'Diners Club', pattern: /^3(0[0-5]|[689])/, lengths: [14, 16, 19], cvcLength: 3 },
+  { id: 'jcb', label: 'JCB', pattern: /^35(2[89]|[3-8])/, lengths: [16, 17, 18, 19], cvcLength: 3 },
+  { id: 'visa', label: 'Visa', pattern: /^4/, lengths: [13, 16, 19], cvcLength: 3 },
+  {
+    id: 'mastercard',
+    label: 'Mastercard',
+    pattern: /^(5[1-5]|222[1-9]|22[3-9]|2[3-6]|27[01]|2720)/,
+    lengths: [16],
+    cvcLength: 3,
+  },
+  { id: 'discover', label: 'Discover', pattern: /^(6011|64[4-9]|65)/, lengths: [16, 19], cvcLength: 3 },
+  { id: 'unionpay', label: 'UnionPay', pattern: /^62/, lengths: [16, 17, 18, 19], cvcLength: 3 },
+  { id: 'maestro', label: 'Maestro', pattern: /^(5[06-9]|6)/, lengths: [12, 13, 14, 15, 16, 17, 18, 19], cvcLength: 3 },
+];
+
+/** IBAN length by country */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BE: 16, BG: 22, BH: 22, BR: 29, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18,
+  EE: 20, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GI: 23, GL: 18, GR: 27, HR: 21, HU: 28, IE: 22,
+  IL: 23, IS: 26, IT: 27, KW: 30, KZ: 20, LB: 28, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31,
+  NL: 18, NO: 15, PK: 24, PL: 28, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24, SE: 24, SI: 19, SK: 24,
+  SM: 27, TR: 26, UA: 29,
+};
+
+/**
+ * Postal code formats keyed by ISO 3166-1 alpha-2 code. Add entries for more countries.
+ */
+export const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+  MX: /^\d{5}$/,
+  BR: /^\d{5}-?\d{3}$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  IE: /^([AC-FHKNPRTV-Y]\d{2}|D6W) ?[\dAC-FHKNPRTV-Y]{4}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  ES: /^\d{5}$/,
+  IT: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/i,
+  BE: /^\d{4}$/,
+  AT: /^\d{4}$/,
+  CH: /^\d{4}$/,
+  DK: /^\d{4}$/,
+  NO: /^\d{4}$/,
+  SE: /^\d{3} ?\d{2}$/,
+  FI: /^\d{5}$/,
+  PL: /^\d{2}-\d{3}$/,
+  PT: /^\d{4}-\d{3}$/,
+  IN: /^\d{6}$/,
+  CN: /^\d{6}$/,
+  JP: /^\d{3}-?\d{4}$/,
+  SG: /^\d{6}$/,
+  AU: /^\d{4}$/,
+  NZ: /^\d{4}$/,
+  ZA: /^\d{4}$/,
+};
+
+const digitsOf = (value: string) => value.replace(/[\s-]/g, '');
+
+/**
+ * Brand of a (possibly partial) card number, or null when no brand matches yet
+ */
+export function detectCardBrand(cardNumber: string): CardBrand | null {
+  const digits = digitsOf(cardNumber);
+  if (!/^\d+$/.test(digits)) return null;
+  return CARD_BRANDS.find((brand) => brand.pattern.test(digits)) ?? null;
+}
+
+/**
+ * Luhn (mod 10) checksum used by card numbers
+ */
+export function luhnCheck(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Card number check: digits (spaces and dashes allowed), Luhn checksum and a length the
+ * brand issues. `accepted` limits the brands, e.g. `['visa', 'mastercard']`.
+ */
+export function isValidCardNumber(cardNumber: string, accepted?: string[]): boolean {
+  const digits = digitsOf(cardNumber);
+  const brand = detectCardBrand(digits);
+  if (!brand || !brand.lengths.includes(digits.length) || !luhnCheck(digits)) return false;
+  return !accepted || accepted.includes(brand.id);
+}
+
+/**
+ * Expiry written as `MM/YY`, `MM/YYYY` or `MMYY`; valid through the end of that month
+ */
+export function isValidCardExpiry(expiry: string, now = new Date()): boolean {
+  const match = /^(\d{2})\s*\/?\s*(\d{2}|\d{4})$/.exec(expiry.trim());
+  if (!match) return false;
+  const month = Number(match[1]);
+  const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+  if (month < 1 || month > 12) return false;
+  // Day 0 of the next month is the last day of the expiry month
+  const end = new Date(year, month, 0, 23, 59, 59, 999);
+  return end >= now && year <= now.getFullYear() + 20;
+}
+
+/**
+ * IBAN check: country length and the ISO 7064 mod-97 checksum. Spaces are ignored.
+ */
+export function isValidIban(iban: string): boolean {
+  const compact = iban.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z\d]{11,30}$/.test(compact)) return false;
+  const expectedLength = IBAN_LENGTHS[compact.slice(0, 2)];
+  if (expectedLength !== undefined && compact.length !== expectedLength) return false;
+
+  // Move the country code and check digits to the end, then letters become 10..35
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Postal code check for a country. Countries without a known format accept any code.
+ */
+export function isValidPostalCode(postalCode: string, country = 'US'): boolean {
+  const pattern = POSTAL_CODE_PATTERNS[country.toUpperCase()];
+  return postalCode.trim() !== '' && (!pattern || pattern.test(postalCode.trim()));
+}
+
+const stringValue = (rule?: ValidationRule) => (typeof rule?.value === 'string' ? rule.value : undefined);
+
+/**
+ * The pack's rule types:
+ * - `creditCard` - `value`: accepted brand ids, comma separated (`'visa,mastercard'`)
+ * - `cardExpiry` - `MM/YY` not in the past
+ * - `cvc` - `matchField`: the card number field, to require its brand's CVC length
+ * - `iban`
+ * - `postalCode` - `value`: country code (default `'US'`)
+ */
+export const FINANCIAL_VALIDATORS: Record<string, ValidatorDefinition> = {
+  creditCard: {
+    validate: (value, rule) =>
+      typeof value === 'string' && isValidCardNumber(value, stringValue(rule)?.split(',').map((id) => id.trim())),
+    defaultMessage: 'Please enter a valid card number',
+  },
+  cardExpiry: {
+    validate: (value) => typeof value === 'string' && isValidCardExpiry(value),
+    defaultMessage: 'Please enter a valid, unexpired date (MM/YY)',
+  },
+  cvc: {
+    validate: (value, rule, formData) => {
+      if (typeof value !== 'string' || !/^\d{3,4}$/.test(value)) return false;
+      const cardNumber = rule?.matchField && formData ? getIn(formData, rule.matchField) : undefined;
+      const brand = typeof cardNumber === 'string' ? detectCardBrand(cardNumber) : null;
+      return !brand || value.length === brand.cvcLength;
+    },
+    defaultMessage: 'Please enter a valid security code',
+  },
+  iban: {
+    validate: (value) => typeof value === 'string' && isValidIban(value),
+    defaultMessage: 'Please enter a valid IBAN',
+  },
+  postalCode: {
+    validate: (value, rule) => typeof value === 'string' && isValidPostalCode(value, stringValue(rule)),
+    defaultMessage: 'Please enter a valid postal code',
+  },
+};
+
+/**
+ * Register the pack's rule types in a registry (the global one by default)
+ */
+export function registerFinancialValidators(registry: ValidatorRegistry = globalValidatorRegistry): ValidatorRegistry {
+  Object.entries(FINANCIAL_VALIDATORS).forEach(([name, { validate, defaultMessage }]) => {
+    registry.register(name, validate, defaultMessage);
+  });
+  return registry;
+}
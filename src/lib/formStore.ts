@@ -0,0 +1,89 @@
+/**
+ * Form store - external state container that components subscribe to slice by slice
+ */
+
+import { getIn, normalizePath } from './paths';
+import type { FieldError, FormState } from './types';
+
+/**
+ * State holder read with useSyncExternalStore. Listeners run after every change.
+ */
+export interface FormStore<TState> {
+  getState: () => TState;
+  setState: (update: TState | ((prev: TState) => TState)) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/** Read-only view of a store, e.g. the derived form state handed to components */
+export type ReadableStore<TState> = Pick<FormStore<TState>, 'getState' | 'subscribe'>;
+
+/**
+ * Create a store. Updates that return the previous state do not notify listeners.
+ */
+export function createFormStore<TState>(initialState: TState): FormStore<TState> {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    setState: (update) => {
+      const next = typeof update === 'function' ? (update as (prev: TState) => TState)(state) : update;
+      if (Object.is(next, state)) return;
+      state = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Equality of two objects by their own keys, comparing values with Object.is
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  const aKeys = Object.keys(a);
+  if (aKeys.length !== Object.keys(b).length) return false;
+  return aKeys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * The part of the form state one field renders
+ */
+export interface FieldStateSlice {
+  value: unknown;
+  error: string;
+  touched: boolean;
+  dirty: boolean;
+  validating: boolean;
+  warning: string;
+  info: string;
+  fieldErrors: FieldError[] | undefined;
+}
+
+/**
+ * Select one field's slice (compare results with shallowEqual)
+ */
+export function selectFieldState(state: FormState, name: string): FieldStateSlice {
+  const key = normalizePath(name);
+  return {
+    value: getIn(state.values, name),
+    error: state.errors[key] || '',
+    touched: state.touched[key] || false,
+    dirty: state.dirty[key] || false,
+    validating: state.validating[key] || false,
+    warning: state.warnings[key] || '',
+    info: state.infos[key] || '',
+    fieldErrors: state.fieldErrors[key],
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { fromJsonSchema, toJsonSchema, type JsonSchema } from './jsonSchema';
+import { validateForm } from './validators';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string' },
+    age: { type: 'integer', minimum: 0 },
+    email: { type: 'string', format: 'email' },
+    address: {
+      type: 'object',
+      properties: {
+        zip: { type: 'string', pattern: '^\\d{5}$' },
+      },
+    },
+  },
+};
+
+describe('JSON Schema optional properties', () => {
+  it('accepts payloads without the optional keys', async () => {
+    expect(await validateForm({ name: 'x' }, fromJsonSchema(schema))).toEqual({});
+  });
+
+  it('accepts empty strings in optional fields', async () => {
+    const values = { name: 'x', age: '', email: '', address: { zip: '' } };
+    expect(await validateForm(values, fromJsonSchema(schema))).toEqual({});
+  });
+
+  it('accepts null in nullable optional fields', async () => {
+    const nullable: JsonSchema = {
+      type: 'object',
+      properties: {
+        age: { type: ['integer', 'null'], minimum: 0 },
+        email: { type: ['string', 'null'], format: 'email' },
+      },
+    };
+    expect(await validateForm({ age: null, email: null }, fromJsonSchema(nullable))).toEqual({});
+    expect(Object.keys(await validateForm({ age: 1.5, email: null }, fromJsonSchema(nullable)))).toEqual(['age']);
+  });
+
+  it('still validates optional values that are present', async () => {
+    const values = { name: 'x', age: -1, email: 'nope', address: { zip: '12' } };
+    const errors = await validateForm(values, fromJsonSchema(schema));
+    expect(Object.keys(errors).sort()).toEqual(['address.zip', 'age', 'email']);
+  });
+
+  it('requires required properties', async () => {
+    expect(Object.keys(await validateForm({}, fromJsonSchema(schema)))).toEqual(['name']);
+  });
+
+  it('keeps optional properties optional through a round trip', async () => {
+    const roundTripped = fromJsonSchema(toJsonSchema(fromJsonSchema(schema)));
+    expect(toJsonSchema(roundTripped).required).toEqual(['name']);
+    expect(await validateForm({ name: 'x' }, roundTripped)).toEqual({});
+    expect(Object.keys(await validateForm({ name: 'x', age: 1.5 }, roundTripped))).toEqual(['age']);
+  });
+});
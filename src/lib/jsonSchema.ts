@@ -0,0 +1,340 @@
+/**
+ * JSON Schema adapters - derive field configs from a schema and back
+ */
+
+import { isMultiValueField } from './coercion';
+import { isArrayField } from './fieldArrays';
+import { toPath } from './paths';
+import type { FieldConfig, ValidationRule } from './types';
+
+/** The subset of JSON Schema (draft-07 / OpenAPI 3) the adapters understand */
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/** Field overrides keyed by field path, e.g. `{ bio: { type: 'textarea' } }`. Array row fields use `items.name`. */
+export type JsonSchemaUiHints = Record<string, Partial<FieldConfig>>;
+
+const FORMAT_INPUT_TYPES: Record<string, string> = {
+  email: 'email',
+  uri: 'url',
+  url: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+const FORMAT_VALIDATORS: Record<string, string> = {
+  email: 'email',
+  uri: 'url',
+  url: 'url',
+};
+
+function schemaType(schema: JsonSchema): string | undefined {
+  const types = Array.isArray(schema.type) ? schema.type.filter((type) => type !== 'null') : [schema.type];
+  if (types[0]) return types[0];
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+/**
+ * Field config for a leaf (non-object) property
+ */
+function toField(name: string, schema: JsonSchema, required: boolean, hints: JsonSchemaUiHints, hintPath: string) {
+  const type = schemaType(schema);
+  const validators: ValidationRule[] = [];
+  const field: FieldConfig = { name, label: schema.title ?? name.slice(name.lastIndexOf('.') + 1) };
+
+  // JSON Schema `required` only asks for the key, so an unchecked checkbox still passes
+  if (required && type !== 'boolean') {
+    field.required = true;
+    validators.push({ type: 'required' });
+  }
+
+  if (schema.enum) {
+    field.type = 'select';
+    field.options = schema.enum.map((option) => ({
+      value: typeof option === 'number' ? option : String(option),
+      label: String(option),
+    }));
+  } else if (type === 'boolean') {
+    field.type = 'checkbox';
+  } else if (type === 'number' || type === 'integer') {
+    field.type = 'number';
+    validators.push({ type: type === 'integer' ? 'integer' : 'number' });
+  } else if (schema.format && FORMAT_INPUT_TYPES[schema.format]) {
+    field.type = FORMAT_INPUT_TYPES[schema.format];
+  } else {
+    field.type = 'text';
+  }
+
+  if (schema.format && FORMAT_VALIDATORS[schema.format]) {
+    validators.push({ type: FORMAT_VALIDATORS[schema.format] });
+  }
+  if (schema.minLength !== undefined) {
+    field.minLength = schema.minLength;
+    validators.push({ type: 'minLength', value: schema.minLength });
+  }
+  if (schema.maxLength !== undefined) {
+    field.maxLength = schema.maxLength;
+    validators.push({ type: 'maxLength', value: schema.maxLength });
+  }
+  if (schema.pattern !== undefined) {
+    field.pattern = schema.pattern;
+    validators.push({ type: 'pattern', value: schema.pattern });
+  }
+  if (schema.minimum !== undefined) validators.push({ type: 'min', value: schema.minimum });
+  if (schema.maximum !== undefined) validators.push({ type: 'max', value: schema.maximum });
+  if (schema.multipleOf !== undefined) validators.push({ type: 'step', value: schema.multipleOf });
+
+  if (schema.default !== undefined) field.defaultValue = schema.default;
+  if (schema.description) field.placeholder = schema.description;
+  // Optional properties may be left out, so their rules only check values that are there
+  if (validators.length > 0) {
+    field.validators = required ? validators : validators.map((rule) => ({ ...rule, optional: true }));
+  }
+
+  return { ...field, ...hints[hintPath] };
+}
+
+/**
+ * Fields for an object schema; nested objects become dotted paths (`address.zip`)
+ */
+function propertiesToFields(
+  schema: JsonSchema,
+  prefix: string,
+  hints: JsonSchemaUiHints,
+  hintPrefix: string
+): FieldConfig[] {
+  const required = new Set(schema.required ?? []);
+
+  return Object.entries(schema.properties ?? {}).flatMap(([key, property]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    const hintPath = hintPrefix ? `${hintPrefix}.${key}` : key;
+    const type = schemaType(property);
+
+    if (type === 'object') {
+      return propertiesToFields(property, name, hints, hintPath);
+    }
+
+    if (type === 'array' && property.items && schemaType(property.items) === 'object') {
+      const field: FieldConfig = {
+        name,
+        type: 'array',
+        label: property.title ?? key,
+        fields: propertiesToFields(property.items, '', hints, `${hintPath}.items`),
+        minItems: property.minItems,
+        maxItems: property.maxItems,
+      };
+      return [{ ...field, ...hints[hintPath] }];
+    }
+
+    if (type === 'array' && property.items?.format === 'binary') {
+      // OpenAPI file uploads
+      const field: FieldConfig = { name, type: 'file', label: property.title ?? key, multiple: true };
+      if (property.maxItems !== undefined) field.validators = [{ type: 'maxFiles', value: property.maxItems }];
+      return [{ ...field, ...hints[hintPath] }];
+    }
+
+    if (type === 'array' && property.items?.enum) {
+      // A list of choices is a checkbox group; the key being required allows an empty list
+      const validators: ValidationRule[] = [
+        ...(property.minItems !== undefined ? [{ type: 'minItems', value: property.minItems }] : []),
+        ...(property.maxItems !== undefined ? [{ type: 'maxItems', value: property.maxItems }] : []),
+      ];
+      const field: FieldConfig = {
+        name,
+        type: 'checkbox',
+        label: property.title ?? key,
+        options: property.items.enum.map((option) => ({
+          value: typeof option === 'number' ? option : String(option),
+          label: String(option),
+        })),
+        ...(property.default !== undefined && { defaultValue: property.default }),
+        ...(validators.length > 0 && { validators }),
+      };
+      return [{ ...field, ...hints[hintPath] }];
+    }
+
+    if (type === 'array') {
+      // Lists of plain values have no built-in input; a uiHint can still supply one
+      if (!hints[hintPath]) return [];
+      return [{ name, label: property.title ?? key, ...hints[hintPath] }];
+    }
+
+    return [toField(name, property, required.has(key), hints, hintPath)];
+  });
+}
+
+/**
+ * Build field configs from an object JSON Schema. `uiHints` override the generated
+ * config per field path (input type, placeholder, messages, ...).
+ */
+export function fromJsonSchema(schema: JsonSchema, uiHints: JsonSchemaUiHints = {}): FieldConfig[] {
+  return propertiesToFields(schema, '', uiHints, '');
+}
+
+/**
+ * Schema for one field's value; rules without a JSON Schema equivalent (match, custom,
+ * registered types) are left out
+ */
+function fieldToSchema(field: FieldConfig): JsonSchema {
+  if (isArrayField(field)) {
+    return {
+      type: 'array',
+      ...(field.label && { title: field.label }),
+      items: toJsonSchema(field.fields ?? []),
+      ...(field.minItems !== undefined && { minItems: field.minItems }),
+      ...(field.maxItems !== undefined && { maxItems: field.maxItems }),
+    };
+  }
+
+  const schema: JsonSchema = {};
+  if (field.label) schema.title = field.label;
+  if (field.defaultValue !== undefined) schema.default = field.defaultValue;
+
+  if (field.type === 'file') {
+    schema.type = 'array';
+    schema.items = { type: 'string', format: 'binary' };
+    const maxFiles = (field.validators ?? []).find((entry) => typeof entry !== 'string' && entry.type === 'maxFiles');
+    if (typeof maxFiles === 'object') schema.maxItems = Number(maxFiles.value);
+    return schema;
+  }
+
+  if (isMultiValueField(field)) {
+    schema.type = 'array';
+    schema.items = { enum: (field.options ?? []).map((option) => option.value) };
+    (field.validators ?? []).forEach((entry) => {
+      if (typeof entry === 'string') return;
+      if (entry.type === 'minItems') schema.minItems = Number(entry.value);
+      if (entry.type === 'maxItems') schema.maxItems = Number(entry.value);
+    });
+    return schema;
+  }
+
+  switch (field.type) {
+    case 'checkbox':
+      schema.type = 'boolean';
+      break;
+    case 'number':
+      schema.type = 'number';
+      break;
+    case 'email':
+      schema.type = 'string';
+      schema.format = 'email';
+      break;
+    case 'url':
+      schema.type = 'string';
+      schema.format = 'uri';
+      break;
+    case 'date':
+      schema.type = 'string';
+      schema.format = 'date';
+      break;
+    case 'datetime-local':
+      schema.type = 'string';
+      schema.format = 'date-time';
+      break;
+    default:
+      schema.type = 'string';
+  }
+
+  if ((field.type === 'select' || field.type === 'radio') && field.options) {
+    schema.enum = field.options.map((option) => option.value);
+  }
+  if (field.minLength !== undefined) schema.minLength = field.minLength;
+  if (field.maxLength !== undefined) schema.maxLength = field.maxLength;
+  if (field.pattern !== undefined) {
+    schema.pattern = typeof field.pattern === 'string' ? field.pattern : field.pattern.source;
+  }
+
+  (field.validators ?? []).forEach((entry) => {
+    const rule: ValidationRule = typeof entry === 'string' ? { type: entry } : entry;
+    switch (rule.type) {
+      case 'email':
+        schema.format = 'email';
+        break;
+      case 'url':
+        schema.format = 'uri';
+        break;
+      case 'number':
+        schema.type = 'number';
+        break;
+      case 'minLength':
+        schema.minLength = Number(rule.value);
+        break;
+      case 'maxLength':
+        schema.maxLength = Number(rule.value);
+        break;
+      case 'pattern':
+        if (rule.value instanceof RegExp) schema.pattern = rule.value.source;
+        else if (typeof rule.value === 'string') schema.pattern = rule.value;
+        break;
+      case 'min':
+        schema.minimum = Number(rule.value);
+        break;
+      case 'max':
+        schema.maximum = Number(rule.value);
+        break;
+      case 'integer':
+        schema.type = 'integer';
+        break;
+      case 'step':
+        schema.multipleOf = Number(rule.value);
+        break;
+    }
+  });
+
+  return schema;
+}
+
+function isRequired(field: FieldConfig): boolean {
+  return (
+    field.required === true ||
+    (field.validators ?? []).some((rule) => (typeof rule === 'string' ? rule : rule.type) === 'required')
+  );
+}
+
+/**
+ * Build an object JSON Schema from field configs - the reverse of fromJsonSchema.
+ * Dotted field paths become nested object properties.
+ */
+export function toJsonSchema(fields: FieldConfig[]): JsonSchema {
+  const root: JsonSchema = { type: 'object', properties: {} };
+
+  fields.forEach((field) => {
+    const path = toPath(field.name).map(String);
+    const key = path[path.length - 1];
+
+    // Walk (and create) the parent objects of dotted paths
+    const parent = path.slice(0, -1).reduce((node, segment) => {
+      node.properties ??= {};
+      node.properties[segment] ??= { type: 'object', properties: {} };
+      return node.properties[segment];
+    }, root);
+
+    parent.properties ??= {};
+    parent.properties[key] = fieldToSchema(field);
+    if (isRequired(field)) {
+      parent.required = [...(parent.required ?? []), key];
+    }
+  });
+
+  return root;
+}
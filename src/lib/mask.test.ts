@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { applyMask, maskInput } from './mask';
+
+const PHONE = '(999) 999-9999';
+
+describe('applyMask', () => {
+  it('fills the slots and inserts literals', () => {
+    expect(applyMask('5551234567', PHONE)).toEqual({ value: '(555) 123-4567', unmasked: '5551234567' });
+  });
+
+  it('leaves trailing literals out until the next slot is filled', () => {
+    expect(applyMask('555', PHONE).value).toBe('(555');
+    expect(applyMask('5551', PHONE).value).toBe('(555) 1');
+  });
+
+  it('skips characters that do not fit a slot', () => {
+    expect(applyMask('55x5', PHONE).value).toBe('(555');
+  });
+
+  it('keeps escaped slot characters as literals', () => {
+    expect(applyMask('12', '\\9-99').value).toBe('9-12');
+  });
+
+  it('counts letters and digits of function masks as unmasked', () => {
+    expect(applyMask('ab12', (text) => text.toUpperCase())).toEqual({ value: 'AB12', unmasked: 'AB12' });
+  });
+});
+
+describe('maskInput caret', () => {
+  it('moves the caret past inserted literals when typing at the end', () => {
+    expect(maskInput('5551', 4, PHONE)).toMatchObject({ value: '(555) 1', caret: 7 });
+  });
+
+  it('keeps the caret after the same typed character when inserting in the middle', () => {
+    // '0' typed after '(55' of '(555) 123-4567'
+    expect(maskInput('(5505) 123-4567', 4, PHONE)).toMatchObject({ value: '(550) 512-3456', caret: 4 });
+  });
+
+  it('keeps the caret in place when a literal is deleted', () => {
+    // Backspace over '-' in '(555) 123-4567'
+    expect(maskInput('(555) 1234567', 9, PHONE)).toMatchObject({ value: '(555) 123-4567', caret: 9 });
+  });
+
+  it('puts the caret at the start when nothing is typed before it', () => {
+    expect(maskInput('(555', 0, PHONE).caret).toBe(0);
+  });
+
+  it('places the caret for function masks', () => {
+    const spaced = (text: string) => text.replace(/\D/g, '').replace(/(\d{4})(?=\d)/g, '$1 ');
+    expect(maskInput('12345', 5, spaced)).toMatchObject({ value: '1234 5', caret: 6 });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Input masks applied while typing
+ */
+
+/**
+ * A pattern such as `'(999) 999-9999'` (`9` digit, `a` letter, `*` letter or digit,
+ * `\` escapes a slot character; anything else is a literal), or a function formatting
+ * the typed text
+ */
+export type InputMask = string | ((value: string) => string);
+
+/** Masked text plus the characters that filled its slots */
+export interface MaskResult {
+  value: string;
+  unmasked: string;
+}
+
+const SLOTS: Record<string, RegExp> = { '9': /\d/, a: /[a-z]/i, '*': /[\da-z]/i };
+
+const SIGNIFICANT = /[\da-z]/i;
+
+/**
+ * Fill the pattern's slots from the input. Literals may be typed or are inserted;
+ * trailing literals only appear once the next slot is filled, so backspace still works.
+ */
+function applyPattern(input: string, mask: string): MaskResult & { slots: number[] } {
+  let value = '';
+  let unmasked = '';
+  const slots: number[] = [];
+  let end = 0; // length up to the last character taken from the input
+  let i = 0;
+
+  for (let m = 0; m < mask.length && i < input.length; m++) {
+    const escaped = mask[m] === '\\';
+    const token = escaped ? mask[++m] : mask[m];
+    const slot = escaped ? undefined : SLOTS[token];
+
+    if (!slot) {
+      value += token;
+      if (input[i] === token) {
+        i++;
+        end = value.length;
+      }
+      continue;
+    }
+
+    while (i < input.length && !slot.test(input[i])) i++;
+    if (i >= input.length) break;
+    slots.push(value.length);
+    value += input[i];
+    unmasked += input[i++];
+    end = value.length;
+  }
+
+  return { value: value.slice(0, end), unmasked, slots };
+}
+
+/**
+ * Format the input with the mask. Function masks count letters and digits as unmasked.
+ */
+export function applyMask(input: string, mask: InputMask): MaskResult {
+  if (typeof mask === 'function') {
+    const value = mask(input);
+    return { value, unmasked: Array.from(value).filter((char) => SIGNIFICANT.test(char)).join('') };
+  }
+  const { value, unmasked } = applyPattern(input, mask);
+  return { value, unmasked };
+}
+
+/**
+ * Mask the text of an input being edited and move the caret to match: it stays after the
+ * same number of typed characters, however many literals were inserted or removed before it.
+ */
+export function maskInput(input: string, caret: number, mask: InputMask): MaskResult & { caret: number } {
+  if (typeof mask === 'function') {
+    const result = applyMask(input, mask);
+    const before = Array.from(input.slice(0, caret)).filter((char) => SIGNIFICANT.test(char)).length;
+    const positions = Array.from(result.value).flatMap((char, index) => (SIGNIFICANT.test(char) ? [index] : []));
+    return { ...result, caret: before === 0 ? 0 : (positions[before - 1] ?? result.value.length - 1) + 1 };
+  }
+
+  const { value, unmasked, slots } = applyPattern(input, mask);
+  const before = applyPattern(input.slice(0, caret), mask).unmasked.length;
+  return { value, unmasked, caret: before === 0 ? 0 : (slots[before - 1] ?? value.length - 1) + 1 };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { formatMessage, resolveMessage } from './messages';
+
+describe('formatMessage', () => {
+  it('fills placeholders and leaves unknown ones as written', () => {
+    expect(formatMessage('{label} must match {matchField}', { label: 'Password', matchField: 'Confirm' })).toBe(
+      'Password must match Confirm'
+    );
+    expect(formatMessage('Hello {name}', {})).toBe('Hello {name}');
+    expect(formatMessage('Unclosed {value', { value: 1 })).toBe('Unclosed {value');
+  });
+
+  it('picks plural forms by count, preferring exact matches', () => {
+    const template = '{value, plural, =0 {no items} one {# item} other {# items}}';
+    expect(formatMessage(template, { value: 0 })).toBe('no items');
+    expect(formatMessage(template, { value: 1 })).toBe('1 item');
+    expect(formatMessage(template, { value: 3 })).toBe('3 items');
+  });
+
+  it('uses the plural rules and number format of the locale', () => {
+    const template = '{value, plural, one {# Zeichen} other {# Zeichen mehr}}';
+    expect(formatMessage(template, { value: 1000 }, 'de')).toBe('1.000 Zeichen mehr');
+    const polish = '{value, plural, one {# znak} few {# znaki} many {# znaków} other {# znaku}}';
+    expect(formatMessage(polish, { value: 3 }, 'pl')).toBe('3 znaki');
+    expect(formatMessage(polish, { value: 5 }, 'pl')).toBe('5 znaków');
+  });
+
+  it('formats placeholders inside the chosen plural form', () => {
+    expect(formatMessage('{value, plural, one {{label} needs # item} other {{label} needs # items}}', {
+      value: 2,
+      label: 'Cart',
+    })).toBe('Cart needs 2 items');
+  });
+});
+
+describe('resolveMessage', () => {
+  const bundles = {
+    pt: { required: 'Campo obrigatório', email: 'E-mail inválido' },
+    'pt-BR': { required: 'Preencha este campo' },
+    en: { email: 'Bad email' },
+  };
+
+  it('falls back from the exact locale to its base language', () => {
+    expect(resolveMessage('required', 'pt-BR', bundles)).toBe('Preencha este campo');
+    expect(resolveMessage('email', 'pt-BR', bundles)).toBe('E-mail inválido');
+  });
+
+  it('then to the English bundle, the given fallback and the built-in message', () => {
+    expect(resolveMessage('email', 'fr', bundles)).toBe('Bad email');
+    expect(resolveMessage('url', 'fr', bundles, 'Custom')).toBe('Custom');
+    expect(resolveMessage('url', 'fr', bundles)).toBe('Please enter a valid URL');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Validation message bundles, lookup and interpolation
+ */
+
+/** Messages keyed by validator type (the translation key) */
+export type MessageBundle = Record<string, string>;
+
+/** Message bundles keyed by locale, e.g. `{ de: {...}, 'pt-BR': {...} }` */
+export type LocaleBundles = Record<string, MessageBundle>;
+
+/** Values available to message templates */
+export interface MessageParams {
+  label?: string;
+  value?: unknown;
+  matchField?: string;
+  length?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Default English messages
+ */
+export const EN_MESSAGES: MessageBundle = {
+  required: 'This field is required',
+  email: 'Please enter a valid email address',
+  minLength: 'This field must be at least {value, plural, one {# character} other {# characters}}',
+  maxLength: 'This field must not exceed {value, plural, one {# character} other {# characters}}',
+  pattern: 'This field format is invalid',
+  match: 'This field must match {matchField}',
+  custom: 'This field is invalid',
+  number: 'Please enter a valid number',
+  url: 'Please enter a valid URL',
+  phone: 'Please enter a valid phone number',
+  min: 'This field must be at least {value}',
+  max: 'This field must be at most {value}',
+  integer: 'Please enter a whole number',
+  step: 'This field must be a multiple of {value}',
+  minDate: 'Please enter a date on or after {value}',
+  maxDate: 'Please enter a date on or before {value}',
+  before: 'This date must be before {matchField}',
+  after: 'This date must be after {matchField}',
+  minAge: 'You must be at least {value, plural, one {# year} other {# years}} old',
+  passwordStrength: 'Please choose a stronger password',
+  accept: 'This file type is not allowed',
+  maxSize: 'Files must be {value} or smaller',
+  maxFiles: 'Choose no more than {value, plural, one {# file} other {# files}}',
+  minWidth: 'Images must be at least {value}px wide',
+  maxWidth: 'Images must be at most {value}px wide',
+  minHeight: 'Images must be at least {value}px tall',
+  maxHeight: 'Images must be at most {value}px tall',
+  minItems: 'Add at least {value, plural, one {# item} other {# items}}',
+  maxItems: 'Add no more than {value, plural, one {# item} other {# items}}',
+  // Password strength meter and show/hide toggle
+  passwordScore0: 'Very weak',
+  passwordScore1: 'Weak',
+  passwordScore2: 'Fair',
+  passwordScore3: 'Strong',
+  passwordScore4: 'Very strong',
+  passwordLength: 'At least {value, plural, one {# character} other {# characters}}',
+  passwordLowercase: 'A lowercase letter',
+  passwordUppercase: 'An uppercase letter',
+  passwordNumber: 'A number',
+  passwordSymbol: 'A symbol',
+  passwordCommon: 'Not a commonly used password',
+  showPassword: 'Show',
+  hidePassword: 'Hide',
+  // File inputs
+  dropFiles: 'or drop files here',
+  removeFile: 'Remove',
+};
+
+/**
+ * Find a message template for a key: exact locale, then base language (`pt-BR` -> `pt`),
+ * then the consumer's English bundle, then `fallback`, then the built-in English message
+ */
+export function resolveMessage(
+  key: string,
+  locale?: string,
+  bundles?: LocaleBundles,
+  fallback?: string
+): string | undefined {
+  if (locale && bundles) {
+    const base = locale.split('-')[0];
+    const template = bundles[locale]?.[key] ?? bundles[base]?.[key];
+    if (template !== undefined) return template;
+  }
+  return bundles?.en?.[key] ?? fallback ?? EN_MESSAGES[key];
+}
+
+/**
+ * Index of the brace closing the one at `start`, or -1
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    if (text[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse `one {...} other {...} =0 {...}` into a selector map
+ */
+function parsePluralOptions(text: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  let i = 0;
+
+  while (i < text.length) {
+    while (i < text.length && /\s/.test(text[i])) i++;
+    const selectorStart = i;
+    while (i < text.length && text[i] !== '{' && !/\s/.test(text[i])) i++;
+    const selector = text.slice(selectorStart, i);
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (!selector || text[i] !== '{') break;
+
+    const end = findClosingBrace(text, i);
+    if (end === -1) break;
+    options[selector] = text.slice(i + 1, end);
+    i = end + 1;
+  }
+
+  return options;
+}
+
+function formatArgument(body: string, params: MessageParams, locale: string): string {
+  const [name, type, ...rest] = body.split(',');
+  const key = name.trim();
+  const param = params[key];
+
+  if (type?.trim() === 'plural') {
+    const count = Number(param);
+    if (Number.isNaN(count)) return String(param ?? '');
+    const options = parsePluralOptions(rest.join(','));
+    const category = new Intl.PluralRules(locale).select(count);
+    const chosen = options[`=${count}`] ?? options[category] ?? options.other ?? '';
+    return formatMessage(chosen.replace(/#/g, new Intl.NumberFormat(locale).format(count)), params, locale);
+  }
+
+  // Unknown placeholders are left as written
+  return param === undefined || param === null ? `{${body}}` : String(param);
+}
+
+/**
+ * Interpolate `{name}` placeholders and ICU-style plurals
+ * (`{value, plural, one {# character} other {# characters}}`)
+ */
+export function formatMessage(template: string, params: MessageParams = {}, locale: string = 'en'): string {
+  let result = '';
+  let i = 0;
+
+  while (i < template.length) {
+    if (template[i] !== '{') {
+      result += template[i];
+      i++;
+      continue;
+    }
+
+    const end = findClosingBrace(template, i);
+    if (end === -1) {
+      result += template.slice(i);
+      break;
+    }
+    result += formatArgument(template.slice(i + 1, end), params, locale);
+    i = end + 1;
+  }
+
+  return result;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { scorePassword } from './password';
+
+const unmet = (password: string) =>
+  scorePassword(password).requirements.filter((requirement) => !requirement.met).map((requirement) => requirement.id);
+
+describe('scorePassword', () => {
+  it('scores common passwords and their variants as very weak', () => {
+    expect(scorePassword('password').score).toBe(0);
+    expect(scorePassword('PASSWORD').entropy).toBe(0);
+    expect(scorePassword('Password123!').score).toBeLessThanOrEqual(1);
+    expect(unmet('Password123!')).toEqual(['common']);
+  });
+
+  it('counts repeats and runs for less', () => {
+    expect(scorePassword('aaaaaaaaaaaa').entropy).toBeLessThan(scorePassword('qmzrxwkvtpjd').entropy);
+    expect(scorePassword('abcdefgh').entropy).toBeLessThan(scorePassword('hfbdgcea').entropy);
+  });
+
+  it('rewards length and character variety', () => {
+    expect(scorePassword('correct horse battery staple').score).toBe(4);
+    expect(scorePassword('tR8#vq!Lm2').score).toBeGreaterThanOrEqual(3);
+    expect(scorePassword('kq7').score).toBe(0);
+  });
+
+  it('reports each requirement', () => {
+    expect(unmet('abc')).toEqual(['length', 'uppercase', 'number', 'symbol']);
+    expect(unmet('')).toEqual(['length', 'lowercase', 'uppercase', 'number', 'symbol', 'common']);
+    expect(scorePassword('abcdef', 6).requirements[0].met).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Password strength scoring
+ */
+
+/** 0 (very weak) to 4 (very strong) */
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+/** One requirement shown by the strength meter; `id` is also its message key suffix */
+export interface PasswordRequirement {
+  id: 'length' | 'lowercase' | 'uppercase' | 'number' | 'symbol' | 'common';
+  met: boolean;
+}
+
+/** Result of scoring a password */
+export interface PasswordStrength {
+  score: PasswordScore;
+  /** Estimated entropy in bits, after penalties */
+  entropy: number;
+  requirements: PasswordRequirement[];
+}
+
+/**
+ * Frequently used passwords and base words, compared case-insensitively.
+ * Add your own entries (e.g. the product name) with `COMMON_PASSWORDS.add()`.
+ */
+export const COMMON_PASSWORDS = new Set<string>([
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '111111', '000000', '123123',
+  '654321', '666666', '121212', '112233', '987654321', 'password', 'passw0rd', 'p@ssw0rd', 'qwerty',
+  'qwertyuiop', 'asdfgh', 'asdfghjkl', 'zxcvbnm', '1q2w3e4r', 'qwe123', 'abc123', 'iloveyou', 'admin',
+  'welcome', 'letmein', 'monkey', 'dragon', 'football', 'baseball', 'master', 'sunshine', 'princess',
+  'shadow', 'superman', 'batman', 'trustno1', 'starwars', 'whatever', 'freedom', 'hello', 'login',
+  'secret', 'charlie', 'michael', 'jordan', 'summer', 'winter', 'spring', 'autumn', 'changeme',
+  'default', 'access', 'flower', 'hunter', 'killer', 'pokemon', 'computer', 'internet', 'cheese',
+]);
+
+const SCORE_THRESHOLDS = [28, 36, 60, 80]; // bits needed for scores 1..4
+
+const CLASSES = {
+  lowercase: { test: /[a-z]/, size: 26 },
+  uppercase: { test: /[A-Z]/, size: 26 },
+  number: { test: /\d/, size: 10 },
+  symbol: { test: /[^a-zA-Z\d]/, size: 33 },
+};
+
+/**
+ * Characters that add little: repeats (`aaa`) and runs (`abc`, `321`) count half
+ */
+function effectiveLength(password: string): number {
+  let length = 0;
+  for (let i = 0; i < password.length; i++) {
+    const step = i > 0 ? password.charCodeAt(i) - password.charCodeAt(i - 1) : NaN;
+    length += Math.abs(step) <= 1 ? 0.5 : 1;
+  }
+  return length;
+}
+
+/**
+ * Score a password from its character classes, length, repeats and runs, and whether it
+ * is (or is built on) a common password. `minLength` is the length requirement (default 8).
+ */
+export function scorePassword(password: string, minLength = 8): PasswordStrength {
+  const classes = Object.values(CLASSES).filter(({ test }) => test.test(password));
+  const bitsPerChar = Math.log2(Math.max(1, classes.reduce((pool, { size }) => pool + size, 0)));
+
+  // 'Password123!' is 'password' plus a predictable suffix
+  const lower = password.toLowerCase();
+  const base = lower.replace(/[^a-z]+$/, '').replace(/^[^a-z]+/, '');
+  const isCommon = COMMON_PASSWORDS.has(lower);
+  const isCommonBase = !isCommon && base !== '' && COMMON_PASSWORDS.has(base);
+
+  let entropy = effectiveLength(password) * bitsPerChar;
+  if (isCommon) entropy = 0;
+  // The whole base word is one guess from a short list
+  if (isCommonBase) entropy -= effectiveLength(base) * bitsPerChar - 10;
+  entropy = Math.max(0, Math.round(entropy));
+
+  const score = SCORE_THRESHOLDS.filter((bits) => entropy >= bits).length as PasswordScore;
+
+  return {
+    score,
+    entropy,
+    requirements: [
+      { id: 'length', met: password.length >= minLength },
+      { id: 'lowercase', met: CLASSES.lowercase.test.test(password) },
+      { id: 'uppercase', met: CLASSES.uppercase.test.test(password) },
+      { id: 'number', met: CLASSES.number.test.test(password) },
+      { id: 'symbol', met: CLASSES.symbol.test.test(password) },
+      { id: 'common', met: password !== '' && !isCommon && !isCommonBase },
+    ],
+  };
+}
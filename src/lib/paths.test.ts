@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { getIn, mergeDeep, normalizePath, setIn, toPath, unsetIn } from './paths';
+
+describe('toPath', () => {
+  it('splits dot and bracket paths into the same segments', () => {
+    expect(toPath('phones.0.number')).toEqual(['phones', '0', 'number']);
+    expect(toPath('phones[0].number')).toEqual(['phones', '0', 'number']);
+    expect(toPath("meta['first.name']")).toEqual(['meta', 'first.name']);
+    expect(toPath('meta["key"]')).toEqual(['meta', 'key']);
+  });
+
+  it('normalizes paths to dot form', () => {
+    expect(normalizePath('phones[0].number')).toBe('phones.0.number');
+    expect(normalizePath('address..zip')).toBe('address.zip');
+    expect(normalizePath("meta['first.name'].value")).toBe('meta["first.name"].value');
+    expect(toPath(normalizePath("meta['first.name']"))).toEqual(['meta', 'first.name']);
+  });
+});
+
+describe('getIn', () => {
+  const values = { address: { zip: '12345' }, phones: [{ number: '555' }], meta: { 'a.b': 1 }, empty: null };
+
+  it('reads nested objects and arrays', () => {
+    expect(getIn(values, 'address.zip')).toBe('12345');
+    expect(getIn(values, 'phones[0].number')).toBe('555');
+    expect(getIn(values, "meta['a.b']")).toBe(1);
+  });
+
+  it('returns undefined for missing or non-object parents', () => {
+    expect(getIn(values, 'address.street')).toBeUndefined();
+    expect(getIn(values, 'empty.value')).toBeUndefined();
+    expect(getIn(values, 'address.zip.first')).toBeUndefined();
+  });
+});
+
+describe('setIn', () => {
+  it('writes without mutating and keeps untouched branches', () => {
+    const values = { address: { zip: '1' }, name: { first: 'Ada' } };
+    const next = setIn(values, 'address.zip', '2');
+    expect(next).toEqual({ address: { zip: '2' }, name: { first: 'Ada' } });
+    expect(values.address.zip).toBe('1');
+    expect(next.name).toBe(values.name);
+  });
+
+  it('creates arrays for index segments and objects otherwise', () => {
+    expect(setIn({}, 'phones.0.number', '555')).toEqual({ phones: [{ number: '555' }] });
+    expect(setIn({}, 'meta.1a', true)).toEqual({ meta: { '1a': true } });
+  });
+
+  it('copies existing arrays', () => {
+    const values = { tags: ['a', 'b'] };
+    const next = setIn(values, 'tags.1', 'c');
+    expect(next.tags).toEqual(['a', 'c']);
+    expect(values.tags).toEqual(['a', 'b']);
+  });
+});
+
+describe('unsetIn', () => {
+  it('removes object keys and array items', () => {
+    expect(unsetIn({ address: { zip: '1', city: 'X' } }, 'address.zip')).toEqual({ address: { city: 'X' } });
+    expect(unsetIn({ tags: ['a', 'b', 'c'] }, 'tags.1')).toEqual({ tags: ['a', 'c'] });
+  });
+
+  it('returns the same object when the path does not exist', () => {
+    const values = { address: { zip: '1' } };
+    expect(unsetIn(values, 'address.street')).toBe(values);
+    expect(unsetIn(values, 'missing.zip')).toBe(values);
+  });
+});
+
+describe('mergeDeep', () => {
+  it('merges plain objects and replaces arrays and other values', () => {
+    const target = { address: { zip: '1', city: 'X' }, tags: ['a', 'b'], when: new Date(0) };
+    const when = new Date(1);
+    expect(mergeDeep(target, { address: { zip: '2' }, tags: ['c'], when })).toEqual({
+      address: { zip: '2', city: 'X' },
+      tags: ['c'],
+      when,
+    });
+  });
+});
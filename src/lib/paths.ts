@@ -0,0 +1,104 @@
+/**
+ * Path helpers for reading and writing nested form values
+ * (e.g. `address.zip`, `phones.0.number` or `phones[0].number`)
+ */
+
+/**
+ * Split a dot/bracket path into its segments
+ */
+export function toPath(path: string): string[] {
+  // Quoted bracket keys may contain dots (`meta['first.name']`)
+  return Array.from(
+    path.matchAll(/\[(?:'([^']*)'|"([^"]*)"|([^\]]*))\]|([^.[\]]+)/g),
+    (match) => match[1] ?? match[2] ?? match[3] ?? match[4]
+  ).filter(Boolean);
+}
+
+/**
+ * Canonical dot form of a path - the key used for errors and touched state.
+ * Segments containing dots stay bracketed so the key parses back to the same path.
+ */
+export function normalizePath(path: string): string {
+  return toPath(path)
+    .map((segment, index) => (segment.includes('.') ? `["${segment}"]` : index === 0 ? segment : `.${segment}`))
+    .join('');
+}
+
+const isIndex = (segment: string) => /^\d+$/.test(segment);
+
+/**
+ * Read a value at a path
+ */
+export function getIn(source: unknown, path: string): unknown {
+  let current: unknown = source;
+  for (const segment of toPath(path)) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Immutably write a value at a path, creating objects/arrays along the way
+ */
+export function setIn<T>(source: T, path: string, value: unknown): T {
+  const segments = toPath(path);
+
+  const write = (current: unknown, index: number): unknown => {
+    if (index === segments.length) {
+      return value;
+    }
+
+    const segment = segments[index];
+    const container: Record<string, unknown> | unknown[] = Array.isArray(current)
+      ? [...current]
+      : current !== null && typeof current === 'object'
+        ? { ...(current as Record<string, unknown>) }
+        : isIndex(segment) ? [] : {};
+
+    const next = write((container as Record<string, unknown>)[segment], index + 1);
+    (container as Record<string, unknown>)[segment] = next;
+    return container;
+  };
+
+  return write(source, 0) as T;
+}
+
+/**
+ * Immutably remove the value at a path
+ */
+export function unsetIn<T>(source: T, path: string): T {
+  const segments = toPath(path);
+  if (segments.length === 0) return source;
+
+  const parentPath = segments.slice(0, -1).join('.');
+  const parent = parentPath ? getIn(source, parentPath) : source;
+  const key = segments[segments.length - 1];
+  if (parent === null || typeof parent !== 'object' || !(key in parent)) {
+    return source;
+  }
+
+  const nextParent = Array.isArray(parent)
+    ? parent.filter((_, index) => String(index) !== key)
+    : Object.fromEntries(Object.entries(parent).filter(([entryKey]) => entryKey !== key));
+
+  return parentPath ? setIn(source, parentPath, nextParent) : (nextParent as T);
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Deep-merge plain objects; arrays and other values from `patch` replace those in `target`
+ */
+export function mergeDeep(target: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...target };
+  Object.entries(patch).forEach(([key, value]) => {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergeDeep(merged[key] as Record<string, unknown>, value)
+      : value;
+  });
+  return merged;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { isValidPhoneNumber, parsePhoneNumber, toE164 } from './phone';
+
+describe('phone numbers', () => {
+  it('accepts national numbers as written in the country', () => {
+    expect(isValidPhoneNumber('020 7946 0958', 'GB')).toBe(true);
+    expect(isValidPhoneNumber('(415) 555-2671', 'US')).toBe(true);
+    expect(isValidPhoneNumber('020 7946 0958', 'US')).toBe(false);
+  });
+
+  it('accepts international numbers of the country only', () => {
+    expect(isValidPhoneNumber('+44 20 7946 0958', 'GB')).toBe(true);
+    expect(isValidPhoneNumber('0044 20 7946 0958', 'GB')).toBe(true);
+    expect(isValidPhoneNumber('+33 1 23 45 67 89', 'GB')).toBe(false);
+  });
+
+  it('resolves shared calling codes to the expected country', () => {
+    expect(parsePhoneNumber('+1 416 555 0123', 'CA')?.country).toBe('CA');
+  });
+
+  it('accepts any supported international number without a country', () => {
+    expect(isValidPhoneNumber('+33 1 23 45 67 89')).toBe(true);
+    expect(isValidPhoneNumber('020 7946 0958')).toBe(false);
+  });
+
+  it('formats valid numbers as E.164', () => {
+    expect(toE164('020 7946 0958', 'GB')).toBe('+442079460958');
+    expect(toE164('not a number', 'GB')).toBeNull();
+  });
+
+  it('falls back to generic E.164 checks for countries without an entry', () => {
+    expect(isValidPhoneNumber('+254 712 345678', 'KE')).toBe(true);
+    expect(toE164('00254 712 345678', 'KE')).toBe('+254712345678');
+    expect(isValidPhoneNumber('0712 345678', 'KE')).toBe(false);
+    expect(isValidPhoneNumber('+0123456789', 'KE')).toBe(false);
+  });
+});
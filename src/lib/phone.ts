@@ -0,0 +1,130 @@
+/**
+ * Country-aware phone number parsing and E.164 formatting
+ */
+
+/** Numbering rules of one country */
+export interface PhoneCountry {
+  callingCode: string;
+  /** Allowed lengths of the national (significant) number */
+  lengths: number[];
+  /** Dialled before national numbers inside the country, dropped in E.164 (e.g. '0' in the UK) */
+  trunkPrefix?: string;
+  /** Extra check on the national number */
+  pattern?: RegExp;
+}
+
+/** A phone number split into its parts */
+export interface ParsedPhoneNumber {
+  country: string;
+  callingCode: string;
+  nationalNumber: string;
+  e164: string;
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// North American Numbering Plan: area code and exchange never start with 0 or 1
+const NANP = /^[2-9]\d{2}[2-9]\d{6}$/;
+
+/**
+ * Supported countries keyed by ISO 3166-1 alpha-2 code. Add entries for more countries.
+ */
+export const PHONE_COUNTRIES: Record<string, PhoneCountry> = {
+  US: { callingCode: '1', lengths: [10], pattern: NANP },
+  CA: { callingCode: '1', lengths: [10], pattern: NANP },
+  MX: { callingCode: '52', lengths: [10] },
+  BR: { callingCode: '55', lengths: [10, 11], trunkPrefix: '0' },
+  GB: { callingCode: '44', lengths: [9, 10], trunkPrefix: '0' },
+  IE: { callingCode: '353', lengths: range(7, 9), trunkPrefix: '0' },
+  DE: { callingCode: '49', lengths: range(6, 13), trunkPrefix: '0' },
+  AT: { callingCode: '43', lengths: range(4, 13), trunkPrefix: '0' },
+  CH: { callingCode: '41', lengths: [9], trunkPrefix: '0' },
+  FR: { callingCode: '33', lengths: [9], trunkPrefix: '0' },
+  BE: { callingCode: '32', lengths: [8, 9], trunkPrefix: '0' },
+  NL: { callingCode: '31', lengths: [9], trunkPrefix: '0' },
+  ES: { callingCode: '34', lengths: [9] },
+  IT: { callingCode: '39', lengths: range(6, 11) },
+  PL: { callingCode: '48', lengths: [9] },
+  SE: { callingCode: '46', lengths: range(7, 9), trunkPrefix: '0' },
+  ZA: { callingCode: '27', lengths: [9], trunkPrefix: '0' },
+  IN: { callingCode: '91', lengths: [10], trunkPrefix: '0' },
+  CN: { callingCode: '86', lengths: [10, 11], trunkPrefix: '0' },
+  JP: { callingCode: '81', lengths: [9, 10], trunkPrefix: '0' },
+  SG: { callingCode: '65', lengths: [8] },
+  AU: { callingCode: '61', lengths: [9], trunkPrefix: '0' },
+  NZ: { callingCode: '64', lengths: range(8, 10), trunkPrefix: '0' },
+};
+
+const PHONE_CHARACTERS = /^\+?[\d\s().-]+$/;
+
+function isValidNational(nationalNumber: string, meta: PhoneCountry): boolean {
+  return meta.lengths.includes(nationalNumber.length) && (!meta.pattern || meta.pattern.test(nationalNumber));
+}
+
+function toParsed(country: string, meta: PhoneCountry, nationalNumber: string): ParsedPhoneNumber {
+  return { country, callingCode: meta.callingCode, nationalNumber, e164: `+${meta.callingCode}${nationalNumber}` };
+}
+
+/**
+ * Parse a phone number typed in national format for `country` (`020 7946 0958`) or in
+ * international format (`+44 20 7946 0958`, `0044 ...`). Returns null when it is not valid.
+ */
+export function parsePhoneNumber(input: string, country?: string): ParsedPhoneNumber | null {
+  const trimmed = input.trim();
+  if (!PHONE_CHARACTERS.test(trimmed)) return null;
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+') || digits.startsWith('00')) {
+    const international = trimmed.startsWith('+') ? digits : digits.slice(2);
+    // The expected country first, so shared calling codes (+1) resolve to it
+    const candidates = Object.entries(PHONE_COUNTRIES).sort(([a], [b]) => Number(b === country) - Number(a === country));
+    for (const [code, meta] of candidates) {
+      if (!international.startsWith(meta.callingCode)) continue;
+      const nationalNumber = international.slice(meta.callingCode.length);
+      if (isValidNational(nationalNumber, meta)) {
+        // A number from another country does not satisfy a country-specific rule
+        return country && code !== country && meta.callingCode !== PHONE_COUNTRIES[country]?.callingCode
+          ? null
+          : toParsed(code, meta, nationalNumber);
+      }
+    }
+    return null;
+  }
+
+  const meta = country ? PHONE_COUNTRIES[country] : undefined;
+  if (!country || !meta) return null;
+  const nationalNumber =
+    meta.trunkPrefix && digits.startsWith(meta.trunkPrefix) ? digits.slice(meta.trunkPrefix.length) : digits;
+  return isValidNational(nationalNumber, meta) ? toParsed(country, meta, nationalNumber) : null;
+}
+
+/**
+ * Any well-formed international number (`+` or `00`, then 8 to 15 digits not starting with 0)
+ * in E.164 format, or null - for countries without an entry in PHONE_COUNTRIES
+ */
+function toGenericE164(input: string): string | null {
+  const trimmed = input.trim();
+  if (!PHONE_CHARACTERS.test(trimmed)) return null;
+  const digits = trimmed.replace(/\D/g, '');
+  const international = trimmed.startsWith('+') ? digits : digits.startsWith('00') ? digits.slice(2) : null;
+  return international && /^[1-9]\d{7,14}$/.test(international) ? `+${international}` : null;
+}
+
+const isSupportedCountry = (country?: string) => !country || country in PHONE_COUNTRIES;
+
+/**
+ * Check a phone number for a country (or any supported country when written with `+`).
+ * Countries missing from PHONE_COUNTRIES accept any well-formed international number.
+ */
+export function isValidPhoneNumber(input: string, country?: string): boolean {
+  if (!isSupportedCountry(country)) return toGenericE164(input) !== null;
+  return parsePhoneNumber(input, country) !== null;
+}
+
+/**
+ * The number in E.164 format (`+442079460958`), or null when it is not valid
+ */
+export function toE164(input: string, country?: string): string | null {
+  if (!isSupportedCountry(country)) return toGenericE164(input);
+  return parsePhoneNumber(input, country)?.e164 ?? null;
+}
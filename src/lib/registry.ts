@@ -0,0 +1,63 @@
+/**
+ * Validator registry - lets consumers plug their own rule types into validation
+ */
+
+import type { CustomValidator } from './types';
+
+/** A registered validator and the message used when a rule omits one */
+export interface ValidatorDefinition {
+  validate: CustomValidator;
+  defaultMessage: string;
+}
+
+/** Lookup table of validators, optionally chained to a parent registry */
+export interface ValidatorRegistry {
+  register: (name: string, validate: CustomValidator, defaultMessage?: string) => ValidatorRegistry;
+  unregister: (name: string) => void;
+  get: (name: string) => ValidatorDefinition | undefined;
+  has: (name: string) => boolean;
+}
+
+const FALLBACK_MESSAGE = 'This field is invalid';
+
+/**
+ * Create a validator registry.
+ * Lookups fall through to `parent` (the global registry by default), so a scoped
+ * registry only needs to hold the rules that differ for one form.
+ */
+export function createValidatorRegistry(parent: ValidatorRegistry | null = globalValidatorRegistry): ValidatorRegistry {
+  const definitions = new Map<string, ValidatorDefinition>();
+
+  const registry: ValidatorRegistry = {
+    register: (name, validate, defaultMessage = FALLBACK_MESSAGE) => {
+      definitions.set(name, { validate, defaultMessage });
+      return registry;
+    },
+    unregister: (name) => {
+      definitions.delete(name);
+    },
+    get: (name) => definitions.get(name) ?? parent?.get(name),
+    has: (name) => definitions.has(name) || Boolean(parent?.has(name)),
+  };
+
+  return registry;
+}
+
+/**
+ * Registry shared by every form that is not given a scoped one
+ */
+export const globalValidatorRegistry: ValidatorRegistry = createValidatorRegistry(null);
+
+/**
+ * Register a validator globally so `{ type: name }` rules run it
+ */
+export function registerValidator(name: string, validate: CustomValidator, defaultMessage?: string): void {
+  globalValidatorRegistry.register(name, validate, defaultMessage);
+}
+
+/**
+ * Remove a globally registered validator
+ */
+export function unregisterValidator(name: string): void {
+  globalValidatorRegistry.unregister(name);
+}
@@ -0,0 +1,80 @@
+/**
+ * Sanitization pipeline applied to values before they are submitted
+ */
+
+import { expandFieldArrays } from './fieldArrays';
+import { getIn, setIn } from './paths';
+import { toE164 } from './phone';
+import type { FieldConfig, ValidationRule } from './types';
+
+/** One sanitization step; non-string values should be returned unchanged */
+export type Sanitizer = (value: unknown, field: FieldConfig) => unknown;
+
+const mapString = (fn: (value: string) => string): Sanitizer => (value) =>
+  typeof value === 'string' ? fn(value) : value;
+
+/**
+ * Built-in steps, referenced by name in `FieldConfig.sanitize`
+ */
+export const SANITIZERS = {
+  trim: mapString((value) => value.trim()),
+  collapseWhitespace: mapString((value) => value.replace(/\s+/g, ' ')),
+  lowercase: mapString((value) => value.toLowerCase()),
+  uppercase: mapString((value) => value.toUpperCase()),
+  // Keeps digits and a leading '+', e.g. '+1 (555) 123-4567' -> '+15551234567'
+  stripPhonePunctuation: mapString((value) => value.replace(/(?!^\+)[^\d]/g, '')),
+  emptyToUndefined: (value: unknown) => (value === '' ? undefined : value),
+  // Valid numbers in E.164 ('+442079460958'), using the country of the field's `phone` rule
+  e164: (value: unknown, field: FieldConfig) => {
+    if (typeof value !== 'string') return value;
+    const rule = field.validators?.find(
+      (entry): entry is ValidationRule => typeof entry !== 'string' && entry.type === 'phone'
+    );
+    return toE164(value, typeof rule?.value === 'string' ? rule.value : undefined) ?? value;
+  },
+} satisfies Record<string, Sanitizer>;
+
+/** Name of a built-in step */
+export type SanitizerName = keyof typeof SANITIZERS;
+
+/** A pipeline: built-in step names and custom functions, run in order */
+export type SanitizePipeline = Array<SanitizerName | Sanitizer>;
+
+/**
+ * Default pipelines by input type, used when a field has no `sanitize` of its own
+ */
+export const DEFAULT_SANITIZERS: Record<string, SanitizePipeline> = {
+  text: ['trim', 'collapseWhitespace'],
+  textarea: ['trim'],
+  email: ['trim', 'lowercase'],
+  tel: ['trim', 'e164', 'stripPhonePunctuation'],
+  url: ['trim'],
+};
+
+/**
+ * Run every field's pipeline over the values. A field's own `sanitize` wins
+ * (`false` turns it off); otherwise the pipeline for its type in `defaults` is used.
+ * Array rows are sanitized with their template field's pipeline.
+ */
+export function sanitizeFormValues<T extends object>(
+  values: T,
+  fields: FieldConfig[],
+  defaults: Record<string, SanitizePipeline> = {}
+): T {
+  let result = values as Record<string, unknown>;
+
+  expandFieldArrays(fields, result).forEach((field) => {
+    const pipeline = field.sanitize === false ? [] : field.sanitize ?? defaults[field.type ?? 'text'] ?? [];
+    if (pipeline.length === 0) return;
+
+    const current = getIn(result, field.name);
+    if (current === undefined) return; // hidden fields were already dropped
+    const next = pipeline.reduce<unknown>(
+      (value, step) => (typeof step === 'function' ? step : SANITIZERS[step])(value, field),
+      current
+    );
+    if (next !== current) result = setIn(result, field.name, next);
+  });
+
+  return result as T;
+}
@@ -0,0 +1,61 @@
+/**
+ * Storage adapters for draft persistence
+ */
+
+/** Minimal key-value storage; methods may be sync or async */
+export interface StorageAdapter {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Wrap a Web Storage object. Falls back to a no-op when it is unavailable
+ * (server rendering, private mode, blocked cookies).
+ */
+function createWebStorageAdapter(getStorage: () => Storage | undefined): StorageAdapter {
+  const safe = <T>(action: (storage: Storage) => T, fallback: T): T => {
+    try {
+      const storage = getStorage();
+      return storage ? action(storage) : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  return {
+    getItem: (key) => safe((storage) => storage.getItem(key), null),
+    setItem: (key, value) => safe((storage) => storage.setItem(key, value), undefined),
+    removeItem: (key) => safe((storage) => storage.removeItem(key), undefined),
+  };
+}
+
+/**
+ * Adapter backed by window.localStorage
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  return createWebStorageAdapter(() => (typeof window === 'undefined' ? undefined : window.localStorage));
+}
+
+/**
+ * Adapter backed by window.sessionStorage
+ */
+export function createSessionStorageAdapter(): StorageAdapter {
+  return createWebStorageAdapter(() => (typeof window === 'undefined' ? undefined : window.sessionStorage));
+}
+
+/**
+ * In-memory adapter - useful for tests or for keeping drafts across route changes only
+ */
+export function createMemoryStorageAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
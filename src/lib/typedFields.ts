@@ -0,0 +1,108 @@
+/**
+ * Type-level helpers that infer typed form values from field configs
+ */
+
+import type { FieldConfig, ValidationRule } from './types';
+
+/** Untyped form values - the default when fields do not come from defineFields */
+export type FieldValues = Record<string, unknown>;
+
+/** Field configs that carry the type of the values they produce (see defineFields) */
+export type TypedFields<TValues> = FieldConfig[] & { readonly __values?: TValues };
+
+/** Recursively optional version of a values object, e.g. for initialValues */
+export type DeepPartial<T> = T extends Date | Blob
+  ? T
+  : T extends ReadonlyArray<infer Item>
+    ? Array<DeepPartial<Item>>
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+/** Dot paths into a values object: `email`, `address.zip`, `contacts.0.name` */
+export type FieldPath<T> = T extends Date | Blob
+  ? never
+  : T extends ReadonlyArray<infer Item>
+    ? `${number}` | `${number}.${FieldPath<Item>}`
+    : T extends object
+      ? { [K in keyof T & string]: K | `${K}.${FieldPath<T[K]>}` }[keyof T & string]
+      : never;
+
+/** Type of the value at a dot path */
+export type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? PathValue<T[Head], Rest>
+    : T extends ReadonlyArray<infer Item>
+      ? PathValue<Item, Rest>
+      : unknown
+  : P extends keyof T
+    ? T[P]
+    : T extends ReadonlyArray<infer Item>
+      ? Item
+      : unknown;
+
+/** `[path, value]` pairs of a values object, e.g. the arguments of setFieldValue */
+export type FieldValueArgs<T> = { [P in FieldPath<T>]: [fieldName: P, value: PathValue<T, P>] }[FieldPath<T>];
+
+/**
+ * Value a field stores: what `parse` returns, else numbers for number inputs, Dates for
+ * date inputs, booleans for checkboxes and one of the option values for select / radio.
+ * Checkbox groups and multiple selects hold arrays of option values, file inputs File[].
+ * Empty inputs hold ''.
+ */
+export type InferFieldValue<F> = F extends { parse: (raw: string) => infer R }
+  ? R
+  : F extends { type: 'array'; fields: infer Rows extends FieldConfig[] }
+    ? Array<InferFormValues<Rows>>
+    : F extends { type: 'number' }
+      ? number | ''
+      : F extends { type: 'date' | 'datetime-local' }
+        ? Date | ''
+        : F extends { type: 'file' }
+          ? File[]
+          : F extends { type: 'checkbox'; options: ReadonlyArray<{ value: infer V }> }
+            ? V[]
+            : F extends { type: 'checkbox' }
+              ? boolean
+              : F extends { type: 'select'; multiple: true; options: ReadonlyArray<{ value: infer V }> }
+                ? V[]
+                : F extends { type: 'select' | 'radio'; options: ReadonlyArray<{ value: infer V }> }
+                  ? V | ''
+                  : string;
+
+/** `address.zip` -> `{ address: { zip: V } }`; hidden-able fields are optional */
+type PathObject<P extends string, V, Optional extends boolean> = P extends `${infer Head}.${infer Rest}`
+  ? { [K in Head]: PathObject<Rest, V, Optional> }
+  : Optional extends true
+    ? { [K in P]?: V }
+    : { [K in P]: V };
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void
+  ? I
+  : never;
+
+/** Flatten intersections so editor tooltips show plain objects */
+type Expand<T> = T extends Date | Blob ? T : T extends object ? { [K in keyof T]: Expand<T[K]> } : T;
+
+type FieldEntry<F> = F extends { name: infer N extends string }
+  ? PathObject<N, InferFieldValue<F>, F extends { visibleWhen: object } ? true : false>
+  : never;
+
+/** Values object described by a list of field configs */
+export type InferFormValues<T extends FieldConfig[]> = Expand<UnionToIntersection<FieldEntry<T[number]>>>;
+
+/** Field config whose cross-field references must name fields of the same form */
+type CheckedField<F, Names extends string> = F & {
+  validators?: ReadonlyArray<string | (ValidationRule & { matchField?: Names })>;
+  dependsOn?: ReadonlyArray<Names>;
+};
+
+/**
+ * Declare fields with their value types inferred, for typed `formState.values`,
+ * `setFieldValue` and `onSubmit`. Misspelled `matchField` / `dependsOn` names are compile errors.
+ */
+export function defineFields<const T extends FieldConfig[]>(
+  fields: T & { [I in keyof T]: CheckedField<T[I], T[number]['name']> }
+): TypedFields<InferFormValues<T>> {
+  return fields;
+}
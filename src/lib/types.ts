@@ -2,6 +2,10 @@
  * Core types and interfaces for React Form Guard
  */
 
+import type { InputMask } from './mask';
+import type { SanitizePipeline } from './sanitize';
+import type { StorageAdapter } from './storage';
+
 /** Allowed validator types */
 export type ValidatorType =
   | 'required'
@@ -13,7 +17,26 @@ export type ValidatorType =
   | 'custom'
   | 'number'
   | 'url'
-  | 'phone';
+  | 'phone'
+  | 'min'
+  | 'max'
+  | 'integer'
+  | 'step'
+  | 'minDate'
+  | 'maxDate'
+  | 'before'
+  | 'after'
+  | 'minAge'
+  | 'passwordStrength'
+  | 'minItems'
+  | 'maxItems'
+  | 'accept'
+  | 'maxSize'
+  | 'maxFiles'
+  | 'minWidth'
+  | 'maxWidth'
+  | 'minHeight'
+  | 'maxHeight';
 
 /** Allowed input types */
 export type InputType =
@@ -25,10 +48,23 @@ export type InputType =
   | 'url'
   | 'date'
   | 'datetime-local'
+  | 'file'
   | 'textarea'
   | 'select'
   | 'checkbox'
-  | 'radio';
+  | 'radio'
+  | 'array';
+
+/** How a failing rule is reported */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Extra context handed to custom and registered validators
+ */
+export interface ValidatorContext {
+  /** Aborted when a newer validation of the same field starts */
+  signal?: AbortSignal;
+}
 
 /**
  * Validation rule configuration
@@ -36,11 +72,42 @@ export type InputType =
 export interface ValidationRule {
   type: ValidatorType | string; // allow any string
   message?: string;
-  value?: string | number | boolean | RegExp;
-  matchField?: string;
-  custom?: (value: unknown, formData?: Record<string, unknown>) => boolean | Promise<boolean>;
+  value?: string | number | boolean | RegExp | Date;
+  matchField?: string; // other field for 'match', 'before' and 'after'
+  custom?: (
+    value: unknown,
+    formData?: Record<string, unknown>,
+    context?: ValidatorContext
+  ) => boolean | Promise<boolean>;
+  cache?: boolean; // reuse results for previously seen values (custom and registered rules)
+  severity?: ValidationSeverity; // 'warning' and 'info' results never block submission
+  optional?: boolean; // skip the rule while the value is undefined, null or '' (e.g. optional schema properties)
 }
 
+/**
+ * Serializable condition on another field's value.
+ * Every operator given must hold; with none, the value must be truthy.
+ */
+export interface FieldValueCondition {
+  field: string;
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  notIn?: unknown[];
+  truthy?: boolean;
+}
+
+/**
+ * Condition used by visibleWhen / requiredWhen / disabledWhen.
+ * Either a predicate over form values or a serializable condition tree.
+ */
+export type FieldCondition =
+  | ((values: Record<string, unknown>) => boolean)
+  | FieldValueCondition
+  | { all: FieldCondition[] }
+  | { any: FieldCondition[] }
+  | { not: FieldCondition };
+
 /**
  * Field configuration
  * Flexible typing: type is string, validators can be array of objects or strings
@@ -54,12 +121,56 @@ export interface FieldConfig {
   disabled?: boolean;
   validators?: Array<ValidationRule | string>;
   defaultValue?: unknown;
-  options?: Array<{ value: string | number; label: string }>;
+  options?: Array<{ value: string | number; label: string }>; // a checkbox with options is a group holding an array
+  multiple?: boolean; // select: choose several options, the value is an array; file: allow several files
   minLength?: number;
   maxLength?: number;
   pattern?: RegExp | string;
   rows?: number; // for textarea
   className?: string;
+  visibleWhen?: FieldCondition; // hidden fields are not rendered, validated or submitted
+  requiredWhen?: FieldCondition; // overrides `required` and the 'required' rule
+  disabledWhen?: FieldCondition;
+  fields?: FieldConfig[]; // row template for type: 'array'
+  minItems?: number; // for type: 'array'
+  maxItems?: number; // for type: 'array'
+  errorDisplay?: 'first' | 'all' | 'checklist'; // 'checklist' lists every rule and ticks off satisfied ones
+  dependsOn?: string[]; // re-validate this field when any of these fields change (matchField is implied)
+  parse?: (raw: string) => unknown; // DOM input string -> stored value
+  format?: (value: unknown) => string; // stored value -> displayed string
+  sanitize?: SanitizePipeline | false; // applied before onSubmit; overrides the default for the type
+  mask?: InputMask; // e.g. '(999) 999-9999', applied while typing
+  storeUnmasked?: boolean; // store only the characters typed into mask slots
+  showStrength?: boolean; // strength bar and unmet requirements; defaults to on with a passwordStrength rule
+  passwordToggle?: boolean; // show/hide button on password inputs (default: true)
+}
+
+/** Wizard step - a titled group of fields validated together */
+export interface WizardStep {
+  id: string;
+  title?: string;
+  description?: string;
+  fields: FieldConfig[];
+}
+
+/** Saved draft of a form's values */
+export interface FormDraft {
+  values: Record<string, unknown>;
+  savedAt: number;
+}
+
+/** Draft persistence options */
+export interface PersistOptions {
+  key: string; // storage key, unique per form
+  storage?: StorageAdapter; // defaults to localStorage
+  debounceMs?: number; // autosave delay, defaults to 500
+  exclude?: string[]; // field paths never saved
+  includePasswords?: boolean; // type: 'password' fields are excluded unless true
+  /**
+   * How a saved draft is restored on mount: 'auto' (default), 'manual' (call restoreDraft / discardDraft)
+   * or a "resume draft?" callback
+   */
+  restore?: 'auto' | 'manual' | ((draft: FormDraft) => boolean | Promise<boolean>);
 }
 
 /** Form field error details */
@@ -68,21 +179,43 @@ export interface FieldError {
   message: string;
   type: ValidatorType | string;
   timestamp: number;
+  severity?: ValidationSeverity;
+  ruleIndex?: number; // position of the failing rule in the field's validators
 }
 
 /** Form validation state */
-export interface FormState {
-  values: Record<string, unknown>;
+export interface FormState<TValues = Record<string, unknown>> {
+  values: TValues;
   errors: Record<string, string>;
+  fieldErrors: Record<string, FieldError[]>; // every failing rule, when collecting all errors
+  warnings: Record<string, string>; // non-blocking messages from severity: 'warning' rules
+  infos: Record<string, string>; // non-blocking messages from severity: 'info' rules
   touched: Record<string, boolean>;
+  validating: Record<string, boolean>; // per-field async validation in flight
+  dirty: Record<string, boolean>; // fields whose value differs from the pristine snapshot
+  rowIds: Record<string, string[]>; // stable id per array row, once rows have been added, removed or moved
+  isDirty: boolean;
   isValidating: boolean;
   isValid: boolean;
 }
 
+/** Helpers passed to onSubmit */
+export interface SubmitHelpers {
+  /** Show server-side errors on fields; they clear when the user edits the field */
+  setErrors: (errors: Record<string, string>) => void;
+  /** The submitted values as multipart FormData, present when they contain files */
+  formData?: FormData;
+}
+
+/** Optional result of onSubmit - returned field errors are shown like thrown SubmissionErrors */
+export interface SubmitResult {
+  errors?: Record<string, string>;
+}
+
 /** Form configuration */
-export interface FormConfig {
+export interface FormConfig<TValues = Record<string, unknown>> {
   fields: FieldConfig[];
-  onSubmit: (values: Record<string, unknown>) => void | Promise<void>;
+  onSubmit: FormSubmitHandler<TValues>;
   validationMode?: 'onChange' | 'onBlur' | 'onSubmit';
 }
 
@@ -97,9 +230,21 @@ export interface ValidationResult {
 export type CustomValidator = (
   value: unknown,
   rule?: ValidationRule,
-  formData?: Record<string, unknown>
+  formData?: Record<string, unknown>,
+  context?: ValidatorContext
 ) => boolean | Promise<boolean>;
 
+/** Errors from a form-level validator, keyed by field path or `_form` */
+export type FormValidatorResult = Record<string, string | undefined> | null | undefined | void;
+
+/**
+ * Cross-field validator for the whole form (e.g. "end date after start date").
+ * Use the `_form` key for errors that belong to the form as a whole.
+ */
+export type FormValidator<TValues = Record<string, unknown>> = (
+  values: TValues
+) => FormValidatorResult | Promise<FormValidatorResult>;
+
 /** Component customization options */
 export interface CustomizationOptions {
   inputClass?: string;
@@ -117,8 +262,8 @@ export interface CustomizationOptions {
 }
 
 /** Form submission handler */
-export interface FormSubmitHandler {
-  (values: Record<string, unknown>): void | Promise<void>;
+export interface FormSubmitHandler<TValues = Record<string, unknown>> {
+  (values: TValues, helpers: SubmitHelpers): void | SubmitResult | Promise<void | SubmitResult>;
 }
 
 /** Field change handler */
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createValidatorRegistry } from './registry';
+import { validateField, validateFieldRules } from './validators';
+
+const isValid = async (...args: Parameters<typeof validateField>) => (await validateField(...args)).isValid;
+
+describe('step rule', () => {
+  it('checks numbers against the step, tolerating floating point noise', async () => {
+    expect(await isValid(0.3, { type: 'step', value: 0.1 })).toBe(true);
+    expect(await isValid(0.35, { type: 'step', value: 0.1 })).toBe(false);
+  });
+
+  it('counts days from 1970-01-01 for date inputs', async () => {
+    // 1970-01-01 and 2024-01-04 are both Thursdays
+    const weekly = { type: 'step', value: 7 };
+    expect(await isValid(new Date(2024, 0, 4), weekly, {}, { inputType: 'date' })).toBe(true);
+    expect(await isValid('2024-01-11', weekly, {}, { inputType: 'date' })).toBe(true);
+    expect(await isValid(new Date(2024, 0, 5), weekly, {}, { inputType: 'date' })).toBe(false);
+  });
+
+  it('counts seconds for datetime-local inputs', async () => {
+    const quarterHour = { type: 'step', value: 900 };
+    expect(await isValid(new Date(2024, 0, 4, 10, 15), quarterHour, {}, { inputType: 'datetime-local' })).toBe(true);
+    expect(await isValid(new Date(2024, 0, 4, 10, 20), quarterHour, {}, { inputType: 'datetime-local' })).toBe(false);
+  });
+
+  it('fails unparseable dates', async () => {
+    expect(await isValid('soon', { type: 'step', value: 1 }, {}, { inputType: 'date' })).toBe(false);
+  });
+});
+
+describe('validator registry', () => {
+  const isEven = (value: unknown) => Number(value) % 2 === 0;
+
+  it('runs registered rule types with their default message', async () => {
+    const registry = createValidatorRegistry(null).register('even', isEven, 'Must be even');
+    expect(await validateField(3, { type: 'even' }, {}, { registry })).toEqual({ isValid: false, message: 'Must be even' });
+    expect(await isValid(4, { type: 'even' }, {}, { registry })).toBe(true);
+  });
+
+  it('falls through to the parent and lets scoped rules override it and built-ins', async () => {
+    const parent = createValidatorRegistry(null).register('even', isEven);
+    const scoped = createValidatorRegistry(parent).register('email', (value) => String(value).endsWith('@example.com'));
+    expect(await isValid(3, { type: 'even' }, {}, { registry: scoped })).toBe(false);
+    expect(await isValid('a@other.com', { type: 'email' }, {}, { registry: scoped })).toBe(false);
+    expect(await isValid('a@other.com', { type: 'email' }, {}, { registry: parent })).toBe(true);
+
+    scoped.unregister('email');
+    expect(await isValid('a@other.com', { type: 'email' }, {}, { registry: scoped })).toBe(true);
+  });
+
+  it('passes the rule and form data to registered validators', async () => {
+    const validate = vi.fn(() => true);
+    const registry = createValidatorRegistry(null).register('custom-check', validate);
+    const rule = { type: 'custom-check', value: 2 };
+    await validateField('x', rule, { other: 1 }, { registry });
+    expect(validate).toHaveBeenCalledWith('x', rule, { other: 1 }, { signal: undefined });
+  });
+
+  it('throws for unknown rule types in development', async () => {
+    await expect(validateField('x', { type: 'missing' }, {}, { registry: createValidatorRegistry(null) })).rejects.toThrow(
+      'Unknown validator type "missing"'
+    );
+  });
+});
+
+describe('rule severities', () => {
+  const rules = [
+    { type: 'minLength', value: 12, severity: 'warning' as const, message: 'Longer is safer' },
+    { type: 'pattern', value: /\d/, severity: 'info' as const, message: 'Add a number' },
+    { type: 'minLength', value: 4, message: 'Too short' },
+  ];
+
+  it('keeps checking rules after a warning or info, and stops at the first error', async () => {
+    const result = await validateFieldRules('abc', [...rules, { type: 'maxLength', value: 2 }]);
+    expect(result).toMatchObject({ error: 'Too short', warning: 'Longer is safer', info: 'Add a number' });
+    expect(result.failures.map((failure) => failure.ruleIndex)).toEqual([0, 1, 2]);
+  });
+
+  it('reports non-blocking messages without an error', async () => {
+    const result = await validateFieldRules('abcdef', rules);
+    expect(result).toMatchObject({ error: '', warning: 'Longer is safer', info: 'Add a number' });
+  });
+});
+
+describe('collecting all failing rules', () => {
+  const rules = ['required', { type: 'minLength', value: 8 }, { type: 'pattern', value: /\d/, message: 'Add a number' }];
+
+  it('runs every rule and keeps the first error as the message', async () => {
+    const result = await validateFieldRules('abc', rules, {}, { collectAllErrors: true, fieldName: 'password' });
+    expect(result.error).toBe('This field must be at least 8 characters');
+    expect(result.failures.map(({ type, ruleIndex, fieldName }) => ({ type, ruleIndex, fieldName }))).toEqual([
+      { type: 'minLength', ruleIndex: 1, fieldName: 'password' },
+      { type: 'pattern', ruleIndex: 2, fieldName: 'password' },
+    ]);
+  });
+
+  it('stops at the first error otherwise', async () => {
+    const result = await validateFieldRules('abc', rules);
+    expect(result.failures).toHaveLength(1);
+  });
+});
+
+describe('multi-value rules', () => {
+  it('requires at least one chosen option', async () => {
+    expect(await isValid([], 'required')).toBe(false);
+    expect(await isValid(['a'], 'required')).toBe(true);
+  });
+
+  it('counts chosen options, treating other values as none', async () => {
+    expect(await isValid(['a', 'b'], { type: 'minItems', value: 2 })).toBe(true);
+    expect(await isValid('a', { type: 'minItems', value: 1 })).toBe(false);
+    expect(await isValid(['a', 'b', 'c'], { type: 'maxItems', value: 2 })).toBe(false);
+  });
+
+  it('pluralizes the item count in messages', async () => {
+    expect((await validateField([], { type: 'minItems', value: 1 })).message).toBe('Add at least 1 item');
+    expect((await validateField([], { type: 'minItems', value: 2 })).message).toBe('Add at least 2 items');
+  });
+});
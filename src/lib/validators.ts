@@ -2,12 +2,66 @@
  * Validation utilities and built-in validators
  */
 
-import type { ValidationRule, ValidatorType } from './types';
+import { resolveDateBound, toDate } from './coercion';
+import { formatFileSize, getImageDimensions, matchesAccept, toFileArray } from './files';
+import { formatMessage, resolveMessage, type LocaleBundles } from './messages';
+import { getIn, normalizePath } from './paths';
+import { scorePassword } from './password';
+import { isValidPhoneNumber } from './phone';
+import { globalValidatorRegistry, type ValidatorRegistry } from './registry';
+import type { FieldConfig, FieldError, FormValidator, ValidationRule, ValidatorType } from './types';
 
 /**
  * Built-in validator functions
  */
-const VALIDATORS: Record<ValidatorType, (value: unknown, rule?: ValidationRule) => boolean | Promise<boolean>> = {
+type BuiltInValidator = (
+  value: unknown,
+  rule?: ValidationRule,
+  formData?: Record<string, unknown>,
+  inputType?: string
+) => boolean | Promise<boolean>;
+
+/**
+ * Whole steps of a date the way native inputs count them from 1970-01-01 (wall-clock time):
+ * days for date inputs, seconds for datetime-local
+ */
+function dateUnits(date: Date, inputType?: string): number {
+  const wallClock = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+  return inputType === 'datetime-local' ? wallClock / 1000 : Math.floor(wallClock / 86_400_000);
+}
+
+/**
+ * Compare the value's date with another field's; passes while the other field is empty
+ */
+function compareWithField(
+  value: unknown,
+  rule: ValidationRule | undefined,
+  formData: Record<string, unknown> | undefined,
+  compare: (date: number, other: number) => boolean
+): boolean {
+  const date = toDate(value);
+  if (!date) return false;
+  const other = rule?.matchField && formData ? toDate(getIn(formData, rule.matchField)) : null;
+  return other ? compare(date.getTime(), other.getTime()) : true;
+}
+
+/**
+ * Check the pixel size of every image in a file value; other files and images that
+ * cannot be decoded pass
+ */
+async function everyImage(value: unknown, check: (size: { width: number; height: number }) => boolean) {
+  const sizes = await Promise.all(toFileArray(value).map(getImageDimensions));
+  return sizes.every((size) => !size || check(size));
+}
+
+const VALIDATORS: Record<ValidatorType, BuiltInValidator> = {
   required: (value: unknown) => {
     if (typeof value === 'string') {
       return value.trim().length > 0;
@@ -71,36 +125,219 @@ const VALIDATORS: Record<ValidatorType, (value: unknown, rule?: ValidationRule)
     }
   },
 
-  phone: (value: unknown) => {
+  phone: (value: unknown, rule?: ValidationRule) => {
+    if (typeof value !== 'string') return false;
+    // `value` is an ISO country code ('GB'); national numbers need one, '+' numbers don't
+    if (typeof rule?.value === 'string') return isValidPhoneNumber(value, rule.value);
+    // Without a country: 10 plain digits, or any supported international number
+    return /^\d{10}$/.test(value) || (value.trim().startsWith('+') && isValidPhoneNumber(value));
+  },
+
+  min: (value: unknown, rule?: ValidationRule) => {
+    if (value === '' || value === null || value === undefined) return false;
+    const number = Number(value);
+    return !isNaN(number) && number >= Number(rule?.value ?? -Infinity);
+  },
+
+  max: (value: unknown, rule?: ValidationRule) => {
+    if (value === '' || value === null || value === undefined) return false;
+    const number = Number(value);
+    return !isNaN(number) && number <= Number(rule?.value ?? Infinity);
+  },
+
+  integer: (value: unknown) => {
+    if (value === '' || value === null || value === undefined) return false;
+    return Number.isInteger(Number(value));
+  },
+
+  step: (value: unknown, rule?: ValidationRule, _formData?: Record<string, unknown>, inputType?: string) => {
+    if (value === '' || value === null || value === undefined) return false;
+    const isDateInput = inputType === 'date' || inputType === 'datetime-local';
+    const date = value instanceof Date || isDateInput ? toDate(value) : null;
+    if ((value instanceof Date || isDateInput) && !date) return false;
+    const number = date ? dateUnits(date, inputType) : Number(value);
+    const step = Number(rule?.value ?? 1);
+    if (isNaN(number)) return false;
+    if (!step) return true;
+    // Tolerate floating point noise, e.g. 0.3 / 0.1
+    const quotient = number / step;
+    return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+  },
+
+  minDate: (value: unknown, rule?: ValidationRule) => {
+    const date = toDate(value);
+    const bound = resolveDateBound(rule?.value);
+    return !!date && (!bound || date.getTime() >= bound.getTime());
+  },
+
+  maxDate: (value: unknown, rule?: ValidationRule) => {
+    const date = toDate(value);
+    const bound = resolveDateBound(rule?.value, true);
+    return !!date && (!bound || date.getTime() <= bound.getTime());
+  },
+
+  before: (value, rule, formData) => compareWithField(value, rule, formData, (date, other) => date < other),
+
+  after: (value, rule, formData) => compareWithField(value, rule, formData, (date, other) => date > other),
+
+  minAge: (value: unknown, rule?: ValidationRule) => {
+    const birthDate = toDate(value);
+    if (!birthDate) return false;
+    // Latest birth date that is old enough: today, `value` years ago
+    const latest = new Date();
+    latest.setFullYear(latest.getFullYear() - Number(rule?.value ?? 0));
+    latest.setHours(23, 59, 59, 999);
+    return birthDate.getTime() <= latest.getTime();
+  },
+
+  passwordStrength: (value: unknown, rule?: ValidationRule) => {
     if (typeof value !== 'string') return false;
-    // Must be exactly 10 digits, no spaces, no symbols, no country code
-    return /^\d{10}$/.test(value);
+    // `value` is the minimum score, 0 (very weak) to 4 (very strong)
+    return scorePassword(value).score >= Number(rule?.value ?? 3);
   },
+
+  // Checkbox groups, multiple selects and array fields; anything else counts as no items
+  minItems: (value: unknown, rule?: ValidationRule) =>
+    (Array.isArray(value) ? value.length : 0) >= Number(rule?.value ?? 0),
+
+  maxItems: (value: unknown, rule?: ValidationRule) =>
+    (Array.isArray(value) ? value.length : 0) <= Number(rule?.value ?? Infinity),
+
+  // File fields; no files passes (use 'required' for that)
+  accept: (value: unknown, rule?: ValidationRule) =>
+    typeof rule?.value !== 'string' || toFileArray(value).every((file) => matchesAccept(file, String(rule.value))),
+
+  maxSize: (value: unknown, rule?: ValidationRule) =>
+    toFileArray(value).every((file) => file.size <= Number(rule?.value ?? Infinity)),
+
+  maxFiles: (value: unknown, rule?: ValidationRule) => toFileArray(value).length <= Number(rule?.value ?? Infinity),
+
+  minWidth: (value: unknown, rule?: ValidationRule) => everyImage(value, ({ width }) => width >= Number(rule?.value ?? 0)),
+
+  maxWidth: (value: unknown, rule?: ValidationRule) =>
+    everyImage(value, ({ width }) => width <= Number(rule?.value ?? Infinity)),
+
+  minHeight: (value: unknown, rule?: ValidationRule) =>
+    everyImage(value, ({ height }) => height >= Number(rule?.value ?? 0)),
+
+  maxHeight: (value: unknown, rule?: ValidationRule) =>
+    everyImage(value, ({ height }) => height <= Number(rule?.value ?? Infinity)),
 };
 
 /**
- * Default error messages for validators
+ * Options shared by field and form validation
  */
-const DEFAULT_MESSAGES: Record<ValidatorType, string> = {
-  required: 'This field is required',
-  email: 'Please enter a valid email address',
-  minLength: 'This field must be at least {value} characters',
-  maxLength: 'This field must not exceed {value} characters',
-  pattern: 'This field format is invalid',
-  match: 'This field does not match the required pattern',
-  custom: 'This field is invalid',
-  number: 'Please enter a valid number',
-  url: 'Please enter a valid URL',
-  phone: 'Please enter a valid phone number',
-};
+export interface ValidateOptions {
+  /** Registry used to resolve non built-in rule types (defaults to the global registry) */
+  registry?: ValidatorRegistry;
+  /** Aborted when the result is no longer needed (e.g. the user typed again) */
+  signal?: AbortSignal;
+  /** Locale used to pick messages from `messages` and for plural rules */
+  locale?: string;
+  /** Message bundles keyed by locale, then by validator type */
+  messages?: LocaleBundles;
+  /** Label of the field being validated, available as `{label}` in messages */
+  label?: string;
+  /** Path of the field being validated, reported in FieldError */
+  fieldName?: string;
+  /** Run every rule instead of stopping at the first failing error rule */
+  collectAllErrors?: boolean;
+  /** Input type of the field being validated; `step` counts days / seconds for date inputs */
+  inputType?: string;
+}
+
+/** Results of rules with `cache: true`, keyed by rule object then value */
+const RESULT_CACHE = new WeakMap<ValidationRule, Map<unknown, boolean>>();
+const MAX_CACHED_RESULTS = 100;
+
+/**
+ * Run a rule's validation, reusing a cached result for the same value when the rule opts in
+ */
+async function runCached(
+  rule: ValidationRule,
+  value: unknown,
+  signal: AbortSignal | undefined,
+  compute: () => boolean | Promise<boolean>
+): Promise<boolean> {
+  if (!rule.cache) return compute();
+
+  let cache = RESULT_CACHE.get(rule);
+  if (!cache) {
+    cache = new Map();
+    RESULT_CACHE.set(rule, cache);
+  }
+  if (cache.has(value)) return cache.get(value) as boolean;
+
+  const result = await compute();
+  // Never cache results of runs that were cancelled mid-flight
+  if (!signal?.aborted) {
+    if (cache.size >= MAX_CACHED_RESULTS) {
+      cache.delete(cache.keys().next().value);
+    }
+    cache.set(value, result);
+  }
+  return result;
+}
+
+// Typed here so the browser build does not need Node's types
+declare const process: { env: { NODE_ENV?: string } };
+
+/**
+ * Whether the code is running in a development build
+ */
+function isDevelopment(): boolean {
+  // Bundlers replace the literal `process.env.NODE_ENV`; unbundled browser code has no `process`
+  try {
+    return process.env.NODE_ENV !== 'production';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A rule's `value` as shown in messages - dates in the locale's format
+ */
+function formatRuleValue(value: ValidationRule['value'], locale?: string): unknown {
+  if (value instanceof RegExp) return String(value);
+  const date = value instanceof Date ? value : typeof value === 'string' ? toDate(value) : null;
+  if (date && (value instanceof Date || /^\d{4}-\d{2}-\d{2}/.test(String(value)))) {
+    return date.toLocaleDateString(locale);
+  }
+  return value;
+}
+
+/**
+ * Build the message for a failed rule: the rule's own message, else the locale bundle entry
+ * for its type, else `fallback`. Placeholders: {label}, {value}, {matchField}, {length}.
+ */
+function buildMessage(rule: ValidationRule, value: unknown, options: ValidateOptions, fallback?: string): string {
+  const template =
+    rule.message ||
+    resolveMessage(rule.type, options.locale, options.messages, fallback) ||
+    resolveMessage('custom', options.locale, options.messages) ||
+    '';
+
+  const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+  return formatMessage(
+    template,
+    {
+      label: options.label ?? 'This field',
+      value: rule.type === 'maxSize' ? formatFileSize(Number(rule.value), options.locale) : formatRuleValue(rule.value, options.locale),
+      matchField: rule.matchField,
+      length,
+    },
+    options.locale
+  );
+}
 
 /**
  * Validate a single value against a rule
  */
 export async function validateField(
   value: unknown,
-  rule: ValidationRule | ValidatorType,
-  formData?: Record<string, unknown>
+  rule: ValidationRule | string,
+  formData?: Record<string, unknown>,
+  options: ValidateOptions = {}
 ): Promise<{ isValid: boolean; message: string }> {
   let normalizedRule: ValidationRule;
 
@@ -113,20 +350,36 @@ export async function validateField(
 
   // Handle custom validators with form data
   if (normalizedRule.type === 'custom' && normalizedRule.custom) {
-    const result = await normalizedRule.custom(value, formData);
+    const { custom } = normalizedRule;
+    const result = await runCached(normalizedRule, value, options.signal, () =>
+      custom(value, formData, { signal: options.signal })
+    );
     return {
       isValid: result,
-      message: normalizedRule.message || DEFAULT_MESSAGES[normalizedRule.type],
+      message: buildMessage(normalizedRule, value, options),
     };
   }
 
   // Handle field matching (for password confirmation)
   if (normalizedRule.type === 'match' && normalizedRule.matchField && formData) {
-    const matchValue = formData[normalizedRule.matchField];
+    const matchValue = getIn(formData, normalizedRule.matchField);
     const isValid = value === matchValue;
     return {
       isValid,
-      message: normalizedRule.message || `This field must match ${normalizedRule.matchField}`,
+      message: buildMessage(normalizedRule, value, options),
+    };
+  }
+
+  // Registered validators take precedence so built-ins can be overridden
+  const registry = options.registry ?? globalValidatorRegistry;
+  const definition = registry.get(normalizedRule.type);
+  if (definition) {
+    const isValid = await runCached(normalizedRule, value, options.signal, () =>
+      definition.validate(value, normalizedRule, formData, { signal: options.signal })
+    );
+    return {
+      isValid,
+      message: buildMessage(normalizedRule, value, options, definition.defaultMessage),
     };
   }
 
@@ -136,33 +389,103 @@ export async function validateField(
   };
 
   if (!isValidType(normalizedRule.type)) {
+    const error = `Unknown validator type "${normalizedRule.type}". Register it with registerValidator() or pass a registry that defines it.`;
+    if (isDevelopment()) {
+      throw new Error(`[formguardian] ${error}`);
+    }
+    console.warn(`[formguardian] ${error}`);
     return { isValid: true, message: '' };
   }
 
   const validator = VALIDATORS[normalizedRule.type];
-  if (!validator) {
-    return { isValid: true, message: '' };
-  }
+  const isValid = await validator(value, normalizedRule, formData, options.inputType);
+  const message = buildMessage(normalizedRule, value, options);
+
+  return { isValid, message };
+}
+
+/** Messages for one field, split by severity */
+export interface FieldValidationResult {
+  error: string;
+  warning: string;
+  info: string;
+  /** Every failing rule that ran */
+  failures: FieldError[];
+}
 
-  const isValid = await validator(value, normalizedRule);
-  let message = normalizedRule.message || DEFAULT_MESSAGES[normalizedRule.type];
+/** Messages for a whole form, keyed by normalized field path */
+export interface FormValidationReport {
+  errors: Record<string, string>;
+  warnings: Record<string, string>;
+  infos: Record<string, string>;
+  fieldErrors: Record<string, FieldError[]>;
+}
 
-  // Replace placeholders in message
-  if (normalizedRule.value !== undefined) {
-    message = message.replace('{value}', String(normalizedRule.value));
+/**
+ * Run a field's rules in order. Stops at the first failing error rule unless
+ * `collectAllErrors` is set; failing warning/info rules never block.
+ * The first message of each severity is kept in error / warning / info.
+ */
+export async function validateFieldRules(
+  value: unknown,
+  rules: Array<ValidationRule | string>,
+  formData?: Record<string, unknown>,
+  options: ValidateOptions = {}
+): Promise<FieldValidationResult> {
+  const result: FieldValidationResult = { error: '', warning: '', info: '', failures: [] };
+
+  for (const [ruleIndex, rule] of rules.entries()) {
+    if (options.signal?.aborted) break;
+    if (typeof rule !== 'string' && rule.optional && (value === undefined || value === null || value === '')) continue;
+    const { isValid, message } = await validateField(value, rule, formData, options);
+    if (isValid) continue;
+
+    const type = typeof rule === 'string' ? rule : rule.type;
+    const severity = typeof rule === 'string' ? 'error' : rule.severity ?? 'error';
+    result.failures.push({
+      fieldName: options.fieldName ?? '',
+      message,
+      type,
+      timestamp: Date.now(),
+      severity,
+      ruleIndex,
+    });
+
+    if (!result[severity]) {
+      result[severity] = message;
+    }
+    if (severity === 'error' && !options.collectAllErrors) {
+      break; // Stop at first error
+    }
   }
 
-  return { isValid, message };
+  return result;
 }
 
 /**
- * Validate all fields in a form
+ * Message a rule shows when it fails, without running it (e.g. for requirement checklists)
  */
-export async function validateForm(
+export function getRuleMessage(rule: ValidationRule | ValidatorType, options: ValidateOptions = {}): string {
+  const normalizedRule = typeof rule === 'string' ? { type: rule } : rule;
+  const registry = options.registry ?? globalValidatorRegistry;
+  return buildMessage(normalizedRule, undefined, options, registry.get(normalizedRule.type)?.defaultMessage);
+}
+
+/**
+ * Validate all fields in a form, collecting errors, warnings and info messages
+ */
+export async function validateFormDetailed(
   values: Record<string, unknown>,
-  fields: Array<{ name: string; validators?: (ValidationRule | ValidatorType)[] }>
-): Promise<Record<string, string>> {
-  const errors: Record<string, string> = {};
+  fields: Array<{
+    name: string;
+    label?: string;
+    type?: string;
+    validators?: (ValidationRule | string)[];
+    collectAllErrors?: boolean;
+  }>,
+  options: ValidateOptions = {}
+): Promise<FormValidationReport> {
+  const report: FormValidationReport = { errors: {}, warnings: {}, infos: {}, fieldErrors: {} };
 
   await Promise.all(
     fields.map(async (field) => {
@@ -170,19 +493,75 @@ export async function validateForm(
         return;
       }
 
-      for (const rule of field.validators) {
-        const { isValid, message } = await validateField(values[field.name], rule, values);
-        if (!isValid) {
-          errors[field.name] = message;
-          break; // Stop at first error
+      const key = normalizePath(field.name);
+      const { error, warning, info, failures } = await validateFieldRules(
+        getIn(values, field.name),
+        field.validators,
+        values,
+        {
+          ...options,
+          label: field.label ?? field.name,
+          fieldName: key,
+          collectAllErrors: field.collectAllErrors ?? options.collectAllErrors,
+          inputType: field.type,
         }
-      }
+      );
+      if (error) report.errors[key] = error;
+      if (warning) report.warnings[key] = warning;
+      if (info) report.infos[key] = info;
+      if (failures.length > 0) report.fieldErrors[key] = failures;
     })
   );
 
+  return report;
+}
+
+/**
+ * Validate all fields in a form. Only error-severity rules produce errors.
+ */
+export async function validateForm(
+  values: Record<string, unknown>,
+  fields: Array<{ name: string; label?: string; validators?: (ValidationRule | string)[] }>,
+  options: ValidateOptions = {}
+): Promise<Record<string, string>> {
+  const { errors } = await validateFormDetailed(values, fields, options);
   return errors;
 }
 
+/** Key of errors that belong to the form as a whole rather than to one field */
+export const FORM_ERROR_KEY = '_form';
+
+/**
+ * Run form-level validators. Errors are keyed by normalized field path (or FORM_ERROR_KEY);
+ * when several validators report the same key the first message wins.
+ */
+export async function validateFormLevel(
+  values: Record<string, unknown>,
+  validators: FormValidator[] = []
+): Promise<Record<string, string>> {
+  const results = await Promise.all(validators.map((validator) => validator(values)));
+  const errors: Record<string, string> = {};
+
+  results.forEach((result) => {
+    Object.entries(result ?? {}).forEach(([name, message]) => {
+      const key = normalizePath(name);
+      if (message && !errors[key]) errors[key] = message;
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Paths a field's validation depends on: `dependsOn` plus the `matchField` of its rules
+ */
+export function getFieldDependencies(field: FieldConfig): string[] {
+  const matchFields = (field.validators ?? []).flatMap((rule) =>
+    typeof rule !== 'string' && rule.matchField ? [rule.matchField] : []
+  );
+  return [...(field.dependsOn ?? []), ...matchFields].map(normalizePath);
+}
+
 /**
  * Check if a value is empty
  */
@@ -0,0 +1,109 @@
+/**
+ * Shared helpers for component tests: rendering into jsdom, typing and render counting
+ */
+
+import { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeAll } from 'vitest';
+import type { FieldRendererProps } from '../hooks/useFieldRenderers';
+import { useFormContext } from '../hooks/useFormContext';
+import type { FieldConfig } from '../lib/types';
+
+beforeAll(() => {
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+let root: Root | null = null;
+let container: HTMLDivElement | null = null;
+
+afterEach(() => {
+  act(() => root?.unmount());
+  container?.remove();
+  root = null;
+  container = null;
+});
+
+/**
+ * Render into a fresh container (unmounted after the test) and return the container
+ */
+export function render(element: React.ReactNode): HTMLDivElement {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  act(() => root!.render(element));
+  return container;
+}
+
+/**
+ * Render a hook in a component; `result.current` holds its latest return value
+ */
+export function renderHook<T>(hook: () => T): { result: { current: T } } {
+  const result = {} as { current: T };
+  const Host = () => {
+    result.current = hook();
+    return null;
+  };
+  render(<Host />);
+  return { result };
+}
+
+/**
+ * Field renderer that counts how often each field renders. It reads the form context, as custom renderers may.
+ */
+export function createCountingRenderer() {
+  const renders: Record<string, number> = {};
+  const Counting = ({ field, value, onChange, onBlur }: FieldRendererProps) => {
+    useFormContext();
+    renders[field.name] = (renders[field.name] ?? 0) + 1;
+    return (
+      <input
+        id={field.name}
+        value={String(value ?? '')}
+        onChange={(e) => onChange(field.name, e.target.value)}
+        onBlur={() => onBlur(field.name)}
+      />
+    );
+  };
+  return { renders, Counting };
+}
+
+/**
+ * Names of the fields whose render count differs from `before`
+ */
+export function changedSince(renders: Record<string, number>, before: Record<string, number>): string[] {
+  return Object.keys(renders).filter((name) => renders[name] !== before[name]);
+}
+
+/**
+ * Fire an input event with `text` as the input's value, the way React sees a browser edit
+ */
+export async function setInputValue(input: HTMLInputElement, text: string) {
+  const setValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!;
+  await act(async () => {
+    setValue.call(input, text);
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  });
+}
+
+/**
+ * Type text into an input one character at a time: one input event per character
+ */
+export async function type(input: HTMLInputElement, text: string) {
+  for (const char of text) {
+    await setInputValue(input, input.value + char);
+  }
+}
+
+/**
+ * `count` required text fields named field0, field1, ...
+ */
+export function createFields(count: number): FieldConfig[] {
+  return Array.from({ length: count }, (_, i) => ({ name: `field${i}`, validators: ['required'] }));
+}
+
+/**
+ * Wait for timers (debounces, autosave) inside act
+ */
+export async function wait(ms: number) {
+  await act(() => new Promise((resolve) => setTimeout(resolve, ms)));
+}